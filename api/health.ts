@@ -1,4 +1,12 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
+import {
+  NO_BROWSER_PROVIDER_MESSAGE,
+  isBrowserProviderConfigured,
+  resolveBrowserlessHost,
+  resolveBrowserProviderName,
+  supportsPersistentSessions,
+} from '../lib/browser-provider.js'
+import { NO_SESSION_STORE_MESSAGE, resolveSessionStoreName } from '../lib/session-store.js'
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
   res.setHeader('Access-Control-Allow-Origin', '*')
@@ -19,15 +27,17 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   const hasLegacyAuthToken = !!process.env.AUTH_TOKEN
   const hasKvUrl = !!process.env.KV_REST_API_URL
   const hasKvToken = !!process.env.KV_REST_API_TOKEN
+  const sessionStore = resolveSessionStoreName()
   const hasBrowserlessUrl = !!process.env.BROWSERLESS_URL
   const hasBrowserlessToken = !!process.env.BROWSERLESS_TOKEN
-  const browserConfigured = hasBrowserlessUrl || hasBrowserlessToken
+  const browserProvider = resolveBrowserProviderName()
+  const browserConfigured = isBrowserProviderConfigured(browserProvider)
   const requireAuth =
     process.env.REQUIRE_AUTH === 'true' ||
     (process.env.REQUIRE_AUTH !== 'false' && process.env.VERCEL_ENV === 'production')
 
   res.status(200).json({
-    status: browserConfigured ? 'ok' : 'warning',
+    status: browserConfigured && sessionStore ? 'ok' : 'warning',
     server: 'agent-browser-mcp-server',
     version: '1.0.0',
     timestamp: new Date().toISOString(),
@@ -36,10 +46,18 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       auth_token_configured: hasMcpAuthToken || hasLegacyAuthToken,
       legacy_auth_token_configured: hasLegacyAuthToken,
       kv_configured: hasKvUrl && hasKvToken,
-      browserless_configured: browserConfigured,
+      session_store: sessionStore,
+      session_encryption_enabled: !!process.env.SESSION_ENCRYPTION_KEYS,
+      session_ttl_seconds: Number(process.env.SESSION_TTL_SECONDS) || 15 * 60,
+      browserless_configured: hasBrowserlessUrl || hasBrowserlessToken,
+      browser_provider: browserProvider,
+      browser_configured: browserConfigured,
+      browserless_host: browserProvider === 'browserless' ? resolveBrowserlessHost() : undefined,
+      persistent_sessions_available: supportsPersistentSessions(browserProvider),
+      evaluate_enabled: process.env.BROWSER_EVALUATE_ENABLED === 'true',
       require_auth: requireAuth,
       vercel_env: process.env.VERCEL_ENV ?? null,
     },
-    message: !browserConfigured ? 'BROWSERLESS_URL or BROWSERLESS_TOKEN is required for browser automation. Get a free API key at https://browserless.io' : undefined,
+    message: !browserConfigured ? NO_BROWSER_PROVIDER_MESSAGE : !sessionStore ? NO_SESSION_STORE_MESSAGE : undefined,
   })
 }
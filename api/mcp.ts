@@ -1,12 +1,39 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node'
 import { Tool } from '@modelcontextprotocol/sdk/types.js'
-import { randomUUID } from 'node:crypto'
+import { createCipheriv, createDecipheriv, randomBytes, randomUUID } from 'node:crypto'
+import { promises as fs } from 'node:fs'
+import os from 'node:os'
+import path from 'node:path'
 import { kv } from '@vercel/kv'
-import { chromium as playwright, Browser, Page, BrowserContext } from 'playwright-core'
+import { getDomain } from 'tldts'
+import { BROWSER_PROVIDER_NAMES, NO_BROWSER_PROVIDER_MESSAGE, resolveBrowserlessHost, resolveBrowserProviderName } from '../lib/browser-provider.js'
+import { NO_SESSION_STORE_MESSAGE, SESSION_STORE_NAMES, resolveSessionStoreName } from '../lib/session-store.js'
+import { extractContent, type ExtractedTable } from '../lib/extract-content.js'
+import { chromium as playwright, devices, Browser, Page, BrowserContext, BrowserContextOptions, Frame, FrameLocator, Locator, Request, Route, Download, Dialog } from 'playwright-core'
+
+// Browser provider configuration
+const BROWSER_HEADLESS = process.env.BROWSER_HEADLESS !== 'false'
+const BROWSER_ARGS = (process.env.BROWSER_ARGS ?? '').split(/[\s,]+/).filter(Boolean)
+const BROWSER_CONNECT_TIMEOUT_MS = Number(process.env.BROWSER_CONNECT_TIMEOUT_MS) || 30000
+const CHROMIUM_EXECUTABLE_PATH = process.env.CHROMIUM_EXECUTABLE_PATH
+const BROWSER_CDP_URL = process.env.BROWSER_CDP_URL // e.g., http://localhost:9222
 
 // Browserless.io configuration
 const BROWSERLESS_URL = process.env.BROWSERLESS_URL // e.g., wss://chrome.browserless.io?token=YOUR_TOKEN
 const BROWSERLESS_TOKEN = process.env.BROWSERLESS_TOKEN
+const BROWSERLESS_HOST = resolveBrowserlessHost()
+
+// Persistent sessions keep the remote browser alive between calls and reattach over CDP
+const PERSISTENT_BROWSER_URL = process.env.PERSISTENT_BROWSER_URL // e.g., http://localhost:9222
+const PERSISTENT_KEEPALIVE_MS = Number(process.env.PERSISTENT_KEEPALIVE_MS) || 5 * 60 * 1000
+
+// File transfer limits; files travel base64-encoded (4/3 larger), and Vercel caps
+// function request and response bodies at 4.5 MB
+const UPLOAD_MAX_BYTES = Number(process.env.UPLOAD_MAX_BYTES) || 3 * 1024 * 1024
+const DOWNLOAD_MAX_BYTES = Number(process.env.DOWNLOAD_MAX_BYTES) || 3 * 1024 * 1024
+const PDF_MAX_BYTES = Number(process.env.PDF_MAX_BYTES) || 3 * 1024 * 1024
+// Shared by every download, screenshot and PDF in one response, so several of them cannot add up past the cap
+const RESPONSE_BINARY_MAX_BYTES = Number(process.env.RESPONSE_BINARY_MAX_BYTES) || 3 * 1024 * 1024
 
 const authTokens = [process.env.MCP_AUTH_TOKEN, process.env.AUTH_TOKEN].filter(
   (t): t is string => typeof t === 'string' && t.length > 0
@@ -15,6 +42,176 @@ const requireAuth =
   process.env.REQUIRE_AUTH === 'true' ||
   (process.env.REQUIRE_AUTH !== 'false' && process.env.VERCEL_ENV === 'production')
 
+// browser_evaluate runs arbitrary page JavaScript, so it is off unless enabled,
+// and BROWSER_EVALUATE_TOKENS can limit it to some of the auth tokens
+const BROWSER_EVALUATE_ENABLED = process.env.BROWSER_EVALUATE_ENABLED === 'true'
+const BROWSER_EVALUATE_TOKENS = (process.env.BROWSER_EVALUATE_TOKENS ?? '').split(',').map(t => t.trim()).filter(Boolean)
+const BROWSER_EVALUATE_MAX_RESULT_BYTES = Number(process.env.BROWSER_EVALUATE_MAX_RESULT_BYTES) || 50000
+const BROWSER_EVALUATE_TIMEOUT_MS = 10000
+
+// State-changing action recorded so it can be replayed on the next call
+interface JournalEntry {
+  action:
+    | 'fill' | 'type' | 'click' | 'press_key' | 'select' | 'upload'
+    | 'hover' | 'check' | 'uncheck' | 'drag' | 'scroll' | 'click_at'
+  selector?: string
+  frame?: string[]
+  value?: string
+  values?: string[]
+  key?: string
+  submit?: boolean
+  // Only the names of uploaded files: their contents would bloat every later save of the session
+  files?: Array<{ name: string; mimeType: string }>
+  button?: MouseButton
+  clickCount?: number
+  modifiers?: KeyModifier[]
+  // Drop target of a drag
+  target?: { selector: string; frame?: string[] }
+  // Viewport coordinates of click_at
+  x?: number
+  y?: number
+  // Scroll distance, or an edge to jump to
+  deltaX?: number
+  deltaY?: number
+  edge?: 'top' | 'bottom'
+  // How the dialogs the action opened were answered, in order
+  dialogs?: DialogPolicy[]
+  // The action opened a popup, which is restored as its own tab instead
+  popup?: boolean
+}
+
+type MouseButton = 'left' | 'right' | 'middle'
+type KeyModifier = 'Alt' | 'Control' | 'ControlOrMeta' | 'Meta' | 'Shift'
+
+// How alert, confirm, prompt and beforeunload dialogs are answered
+interface DialogPolicy {
+  action: 'accept' | 'dismiss'
+  // Text entered into prompt() dialogs when accepting
+  promptText?: string
+}
+
+// Device, locale and permission emulation of a session, applied to every browser it opens
+interface EmulationProfile {
+  // Playwright device descriptor name, e.g. "iPhone 13"; the fields below override it
+  device?: string
+  viewport?: { width: number; height: number }
+  deviceScaleFactor?: number
+  isMobile?: boolean
+  hasTouch?: boolean
+  userAgent?: string
+  locale?: string
+  timezoneId?: string
+  colorScheme?: 'light' | 'dark' | 'no-preference'
+  reducedMotion?: 'reduce' | 'no-preference'
+  geolocation?: { latitude: number; longitude: number; accuracy?: number }
+  permissions?: string[]
+}
+
+interface DialogRecord extends DialogPolicy {
+  type: string
+  message: string
+  defaultValue?: string
+}
+
+// File set on an <input type=file>, with base64 content
+interface UploadFile {
+  name: string
+  mimeType: string
+  data: string
+}
+
+// Snapshot ref resolved to a selector that matches exactly one element
+interface ElementRef {
+  role: string
+  name: string
+  selector: string
+  // Selectors of the iframes the element is nested in, outermost first
+  frame?: string[]
+}
+
+// Session-level back/forward stack; each call starts a fresh page with no browser history
+interface NavigationHistory {
+  entries: string[]
+  index: number
+}
+
+// Traffic recorded for a session that opted into network capture
+interface NetworkCaptureConfig {
+  urlFilter?: string
+  resourceTypes?: string[]
+  maxBodySize: number
+}
+
+interface NetworkEntry {
+  url: string
+  method: string
+  resourceType: string
+  startedAt: string
+  duration?: number
+  requestHeaders: Record<string, string>
+  requestBody?: string
+  status?: number
+  statusText?: string
+  responseHeaders?: Record<string, string>
+  mimeType?: string
+  responseBody?: string
+  responseSize?: number
+  // Bodies longer than maxBodySize are cut off
+  bodyTruncated?: boolean
+  failure?: string
+}
+
+// Request routing rule, reapplied to the browser context on every call
+interface RouteRule {
+  id: string
+  action: 'mock' | 'abort'
+  // Glob pattern as accepted by Playwright's route, e.g. **/api/users*
+  urlPattern?: string
+  resourceTypes?: string[]
+  // Only match requests to another site than the page's
+  thirdParty?: boolean
+  status?: number
+  headers?: Record<string, string>
+  contentType?: string
+  body?: string
+}
+
+// Console message or uncaught page error, with the tool call it happened during
+interface ConsoleEntry {
+  level: string
+  text: string
+  // url:line:column of the code that logged it
+  location?: string
+  tool: string
+  timestamp: string
+  uncaught?: boolean
+}
+
+// Tab of a session; only the active tab is restored into the browser on each call
+interface BrowserTab {
+  id: string
+  url: string
+  title: string
+  // Journal of an inactive tab, restored when it is switched back to
+  journal?: JournalEntry[]
+  history?: NavigationHistory
+  // Live page of the tab in a persistent session
+  targetId?: string
+}
+
+// Live browser a persistent session can reattach to
+interface RemoteBrowser {
+  endpoint: string
+  targetId: string
+}
+
+// Envelope-encrypted session secrets: the data key is wrapped with a server key
+interface EncryptedSecrets {
+  keyId: string
+  wrappedKey: string
+  data: string
+}
+
 // Session data interface
 interface BrowserSession {
   id: string
@@ -29,233 +226,3420 @@ interface BrowserSession {
     secure?: boolean
     sameSite?: 'Strict' | 'Lax' | 'None'
   }>
-  localStorage: Record<string, string>
+  // Items keyed by origin, so a page is only given the storage of its own origin
+  localStorage: Record<string, Record<string, string>>
   lastSnapshot?: string
-  refs?: Record<string, { role: string; name: string; selector: string }>
+  refs?: Record<string, ElementRef>
+  // URL the refs were taken on; refs go stale once the page navigates away
+  refsUrl?: string
   httpCredentials?: { username: string; password: string }
+  // Actions performed since the last navigation, replayed by setupPage
+  journal?: JournalEntry[]
+  history?: NavigationHistory
+  persistent?: boolean
+  remote?: RemoteBrowser
+  tabs?: BrowserTab[]
+  activeTabId?: string
+  networkCapture?: NetworkCaptureConfig
+  routes?: RouteRule[]
+  dialogPolicy?: DialogPolicy
+  // One-shot policy for the next call, cleared once used
+  nextDialog?: DialogPolicy
+  emulation?: EmulationProfile
+  // Sensitive fields sealed at rest, see encryptSession
+  encrypted?: EncryptedSecrets
   createdAt: number
   updatedAt: number
 }
 
-const SESSION_TTL = 15 * 60 // 15 minutes
+const SESSION_TTL = Number(process.env.SESSION_TTL_SECONDS) || 15 * 60 // 15 minutes by default
+// Logs expire this long after a call last added to them
+const LOG_TTL = Number(process.env.LOG_TTL_SECONDS) || SESSION_TTL
+
+// Session storage backends; records are sessions unless the key says otherwise
+interface SessionStore {
+  name: string
+  get<T = BrowserSession>(key: string): Promise<T | null>
+  set<T = BrowserSession>(key: string, session: T, ttlSeconds: number): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+// Vercel KV (Upstash Redis REST protocol)
+function createKvStore(): SessionStore {
+  return {
+    name: 'kv',
+    get: async <T>(key: string) => await kv.get<T>(key),
+    set: async <T>(key: string, session: T, ttlSeconds: number) => {
+      await kv.set(key, session, { ex: ttlSeconds })
+    },
+    delete: async (key) => {
+      await kv.del(key)
+    },
+  }
+}
+
+// Process-local store; sessions only survive while the instance stays warm
+function createMemoryStore(): SessionStore {
+  const entries = new Map<string, { session: unknown; expiresAt: number }>()
+  return {
+    name: 'memory',
+    get: async <T>(key: string) => {
+      const entry = entries.get(key)
+      if (!entry) return null
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key)
+        return null
+      }
+      return structuredClone(entry.session) as T
+    },
+    set: async <T>(key: string, session: T, ttlSeconds: number) => {
+      entries.set(key, { session: structuredClone(session), expiresAt: Date.now() + ttlSeconds * 1000 })
+    },
+    delete: async (key) => {
+      entries.delete(key)
+    },
+  }
+}
+
+// One JSON file per session, for local agents and CI
+function createFileStore(dir: string): SessionStore {
+  const filePath = (key: string) => path.join(dir, `${encodeURIComponent(key)}.json`)
+  return {
+    name: 'file',
+    get: async <T>(key: string) => {
+      let raw: string
+      try {
+        raw = await fs.readFile(filePath(key), 'utf8')
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+        throw error
+      }
+      const entry = JSON.parse(raw) as { session: T; expiresAt: number }
+      if (entry.expiresAt <= Date.now()) {
+        await fs.rm(filePath(key), { force: true })
+        return null
+      }
+      return entry.session
+    },
+    set: async <T>(key: string, session: T, ttlSeconds: number) => {
+      await fs.mkdir(dir, { recursive: true })
+      // Write then rename so a concurrent read never sees a partial file
+      const tmpPath = `${filePath(key)}.${randomUUID()}.tmp`
+      await fs.writeFile(tmpPath, JSON.stringify({ session, expiresAt: Date.now() + ttlSeconds * 1000 }))
+      await fs.rename(tmpPath, filePath(key))
+    },
+    delete: async (key) => {
+      await fs.rm(filePath(key), { force: true })
+    },
+  }
+}
+
+function createSessionStore(): SessionStore {
+  const storeType = resolveSessionStoreName()
+  
+  switch (storeType) {
+    case 'kv':
+      return createKvStore()
+    case 'memory':
+      return createMemoryStore()
+    case 'file':
+      return createFileStore(process.env.SESSION_STORE_DIR || path.join(os.tmpdir(), 'agent-browser-sessions'))
+    case null:
+      throw new Error(NO_SESSION_STORE_MESSAGE)
+    default:
+      throw new Error(`Unknown SESSION_STORE: ${storeType} (expected ${SESSION_STORE_NAMES.join(', ')})`)
+  }
+}
+
+let sessionStore: SessionStore | null = null
+
+function getSessionStore(): SessionStore {
+  sessionStore ??= createSessionStore()
+  return sessionStore
+}
+
+// Session secret encryption
+// SESSION_ENCRYPTION_KEYS="<keyId>:<base64 32-byte key>,..."; the first key encrypts, all keys decrypt
+type SessionSecrets = Pick<BrowserSession, 'cookies' | 'localStorage' | 'httpCredentials' | 'journal' | 'tabs' | 'lastSnapshot' | 'remote'>
+
+let encryptionKeys: { activeKeyId: string; keys: Map<string, Buffer> } | null | undefined
+
+function getEncryptionKeys(): { activeKeyId: string; keys: Map<string, Buffer> } | null {
+  if (encryptionKeys !== undefined) return encryptionKeys
+  
+  const raw = process.env.SESSION_ENCRYPTION_KEYS
+  if (!raw) {
+    encryptionKeys = null
+    return encryptionKeys
+  }
+  
+  const keys = new Map<string, Buffer>()
+  for (const item of raw.split(',').map(k => k.trim()).filter(Boolean)) {
+    const separator = item.indexOf(':')
+    const keyId = item.slice(0, separator)
+    const key = Buffer.from(item.slice(separator + 1), 'base64')
+    if (separator <= 0 || key.length !== 32) {
+      throw new Error('SESSION_ENCRYPTION_KEYS must be a comma-separated list of "<keyId>:<base64 32-byte key>"')
+    }
+    keys.set(keyId, key)
+  }
+  
+  encryptionKeys = { activeKeyId: keys.keys().next().value!, keys }
+  return encryptionKeys
+}
+
+// AES-256-GCM, encoded as base64(iv | auth tag | ciphertext)
+function seal(key: Buffer, plaintext: Buffer, aad: string): string {
+  const iv = randomBytes(12)
+  const cipher = createCipheriv('aes-256-gcm', key, iv)
+  cipher.setAAD(Buffer.from(aad))
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()])
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')
+}
+
+function unseal(key: Buffer, sealed: string, aad: string): Buffer {
+  const buffer = Buffer.from(sealed, 'base64')
+  const decipher = createDecipheriv('aes-256-gcm', key, buffer.subarray(0, 12))
+  decipher.setAAD(Buffer.from(aad))
+  decipher.setAuthTag(buffer.subarray(12, 28))
+  return Buffer.concat([decipher.update(buffer.subarray(28)), decipher.final()])
+}
+
+// Envelope-encrypt a value; the aad binds the ciphertext to the record it belongs to
+function sealSecrets(value: unknown, aadPrefix: string): EncryptedSecrets | null {
+  const encryption = getEncryptionKeys()
+  if (!encryption) return null
+  
+  const aad = `${aadPrefix}:${encryption.activeKeyId}`
+  const dataKey = randomBytes(32)
+  return {
+    keyId: encryption.activeKeyId,
+    wrappedKey: seal(encryption.keys.get(encryption.activeKeyId)!, dataKey, aad),
+    data: seal(dataKey, Buffer.from(JSON.stringify(value)), aad),
+  }
+}
+
+// description names the record in errors, e.g. "Session <id>"
+function unsealSecrets<T>(encrypted: EncryptedSecrets, aadPrefix: string, description: string): T {
+  const { keyId, wrappedKey, data } = encrypted
+  const encryption = getEncryptionKeys()
+  if (!encryption) {
+    throw new Error(`${description} is encrypted but SESSION_ENCRYPTION_KEYS is not set`)
+  }
+  const key = encryption.keys.get(keyId)
+  if (!key) {
+    throw new Error(`${description} is encrypted with unknown key "${keyId}"`)
+  }
+  
+  try {
+    const aad = `${aadPrefix}:${keyId}`
+    const dataKey = unseal(key, wrappedKey, aad)
+    return JSON.parse(unseal(dataKey, data, aad).toString('utf8'))
+  } catch {
+    throw new Error(`${description} could not be decrypted: the record is corrupted or was tampered with`)
+  }
+}
+
+function encryptSession(session: BrowserSession): BrowserSession {
+  // Snapshots include the values of text fields; anyone holding the remote endpoint can drive the live browser
+  const { cookies, localStorage, httpCredentials, journal, tabs, lastSnapshot, remote, ...rest } = session
+  const secrets: SessionSecrets = { cookies, localStorage, httpCredentials, journal, tabs, lastSnapshot, remote }
+  // Bind the ciphertext to the session so records cannot be swapped between sessions
+  const encrypted = sealSecrets(secrets, session.id)
+  if (!encrypted) return session
+  
+  return { ...rest, cookies: [], localStorage: {}, encrypted }
+}
+
+function decryptSession(session: BrowserSession): BrowserSession {
+  // Records saved before encryption was enabled are read as-is and sealed on the next save
+  if (!session.encrypted) return session
+  
+  const secrets = unsealSecrets<SessionSecrets>(session.encrypted, session.id, `Session ${session.id}`)
+  const { encrypted, ...rest } = session
+  return { ...rest, ...secrets }
+}
 
 // Session management functions
 async function getSession(sessionId: string): Promise<BrowserSession | null> {
+  const store = getSessionStore()
+  let session: BrowserSession | null
   try {
-    const session = await kv.get<BrowserSession>(`browser_session:${sessionId}`)
-    return session
+    session = await store.get(`browser_session:${sessionId}`)
   } catch (error) {
-    console.error('Failed to get session:', error)
-    return null
+    throw new Error(`Failed to load session ${sessionId} from ${store.name} store: ${error instanceof Error ? error.message : String(error)}`)
   }
+  return session && upgradeLocalStorage(decryptSession(session))
+}
+
+// Records saved before localStorage was kept per origin hold the items of the session's page
+function upgradeLocalStorage(session: BrowserSession): BrowserSession {
+  const values = Object.values(session.localStorage ?? {}) as unknown[]
+  if (!values.some(value => typeof value === 'string')) return session
+  const origin = storageOrigin(session.url)
+  const items = session.localStorage as unknown as Record<string, string>
+  return { ...session, localStorage: origin ? { [origin]: items } : {} }
+}
+
+// Origin whose localStorage a URL uses; about:blank and data: URLs have none
+function storageOrigin(url: string): string | undefined {
+  try {
+    const { origin } = new URL(url)
+    return origin === 'null' ? undefined : origin
+  } catch {
+    return undefined
+  }
+}
+
+// The page's origin takes the storage just read from it; the other origins keep what they had
+function mergeLocalStorage(
+  previous: BrowserSession['localStorage'] | undefined,
+  url: string,
+  current: BrowserSession['localStorage']
+): BrowserSession['localStorage'] {
+  const merged = { ...previous }
+  const origin = storageOrigin(url)
+  if (origin) delete merged[origin]
+  return { ...merged, ...current }
 }
 
 async function saveSession(session: BrowserSession): Promise<void> {
+  const store = getSessionStore()
+  const record = encryptSession(session)
   try {
-    await kv.set(`browser_session:${session.id}`, session, { ex: SESSION_TTL })
+    await store.set(`browser_session:${session.id}`, record, SESSION_TTL)
   } catch (error) {
-    console.error('Failed to save session:', error)
+    throw new Error(`Failed to save session ${session.id} to ${store.name} store: ${error instanceof Error ? error.message : String(error)}`)
   }
 }
 
 async function deleteSession(sessionId: string): Promise<void> {
+  const store = getSessionStore()
   try {
-    await kv.del(`browser_session:${sessionId}`)
+    await store.delete(`browser_session:${sessionId}`)
+    for (const log of SESSION_LOGS) await store.delete(logKey(log, sessionId))
   } catch (error) {
-    console.error('Failed to delete session:', error)
+    throw new Error(`Failed to delete session ${sessionId} from ${store.name} store: ${error instanceof Error ? error.message : String(error)}`)
   }
 }
 
-// Browser management
-async function launchBrowser(): Promise<Browser> {
-  // Use Browserless.io cloud browser if configured
-  if (BROWSERLESS_TOKEN) {
-    const browserlessWsUrl = `wss://production-sfo.browserless.io/chromium/playwright?token=${BROWSERLESS_TOKEN}`
-    console.log('Connecting to Browserless cloud browser via Playwright...')
-    const browser = await playwright.connect(browserlessWsUrl)
-    return browser
+// Logs are kept under their own keys, so the session record loaded and saved on every call stays small
+// and a log is only written when a call adds to it
+const SESSION_LOGS = ['network', 'console']
+
+interface StoredLog<T> {
+  entries: T[]
+  // Sealed like the session's secrets: network entries include headers and bodies, console entries what pages log
+  encrypted?: EncryptedSecrets
+}
+
+function logKey(log: string, sessionId: string): string {
+  return `browser_${log}:${sessionId}`
+}
+
+async function getLog<T>(log: string, sessionId: string): Promise<T[]> {
+  const store = getSessionStore()
+  const key = logKey(log, sessionId)
+  let record: StoredLog<T> | null
+  try {
+    record = await store.get<StoredLog<T>>(key)
+  } catch (error) {
+    throw new Error(`Failed to load the ${log} log of session ${sessionId} from ${store.name} store: ${error instanceof Error ? error.message : String(error)}`)
   }
-  
-  if (BROWSERLESS_URL) {
-    console.log('Connecting to custom browser endpoint...')
-    const browser = await playwright.connect(BROWSERLESS_URL)
-    return browser
+  if (!record) return []
+  return record.encrypted ? unsealSecrets<T[]>(record.encrypted, key, `The ${log} log of session ${sessionId}`) : record.entries
+}
+
+// Keep the newest maxEntries
+async function appendLog<T>(log: string, sessionId: string, entries: T[], maxEntries: number): Promise<void> {
+  if (entries.length === 0) return
+  const store = getSessionStore()
+  const key = logKey(log, sessionId)
+  const updated = [...await getLog<T>(log, sessionId), ...entries].slice(-maxEntries)
+  const encrypted = sealSecrets(updated, key)
+  try {
+    await store.set<StoredLog<T>>(key, encrypted ? { entries: [], encrypted } : { entries: updated }, LOG_TTL)
+  } catch (error) {
+    throw new Error(`Failed to save the ${log} log of session ${sessionId} to ${store.name} store: ${error instanceof Error ? error.message : String(error)}`)
   }
-  
-  // Fallback to local chromium (for local development)
-  throw new Error('BROWSERLESS_URL or BROWSERLESS_TOKEN environment variable is required for cloud browser. Get a free API key at https://browserless.io')
 }
 
-async function setupPage(
-  browser: Browser, 
-  session: BrowserSession | null,
-  httpCredentials?: { username: string; password: string }
-): Promise<{ context: BrowserContext; page: Page }> {
-  // Use credentials from parameter, session, or none
-  const credentials = httpCredentials || session?.httpCredentials
-  
-  const context = await browser.newContext({
-    viewport: { width: 1280, height: 720 },
-    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-    httpCredentials: credentials,
-  })
-  
-  // Restore cookies if session exists
-  if (session?.cookies && session.cookies.length > 0) {
-    await context.addCookies(session.cookies)
+async function deleteLog(log: string, sessionId: string): Promise<void> {
+  const store = getSessionStore()
+  try {
+    await store.delete(logKey(log, sessionId))
+  } catch (error) {
+    throw new Error(`Failed to delete the ${log} log of session ${sessionId} from ${store.name} store: ${error instanceof Error ? error.message : String(error)}`)
   }
-  
-  const page = await context.newPage()
-  
-  // Restore localStorage if session exists and has a URL
-  if (session?.localStorage && session.url && Object.keys(session.localStorage).length > 0) {
-    await page.goto(session.url, { waitUntil: 'domcontentloaded' })
-    await page.evaluate((storage) => {
-      for (const [key, value] of Object.entries(storage)) {
-        localStorage.setItem(key, value)
-      }
-    }, session.localStorage)
+}
+
+// Browser providers
+interface BrowserProvider {
+  name: string
+  launch(): Promise<Browser>
+  // CDP endpoint persistent sessions connect to; reconnect asks Browserless to outlive the connection
+  persistentEndpoint?: { url: string; browserlessReconnect: boolean }
+}
+
+// Chromium installed on this machine (local development and CI)
+function createLocalProvider(): BrowserProvider {
+  return {
+    name: 'local',
+    launch: async () => {
+      console.log('Launching local Chromium...')
+      return await playwright.launch({
+        headless: BROWSER_HEADLESS,
+        args: BROWSER_ARGS,
+        executablePath: CHROMIUM_EXECUTABLE_PATH,
+        timeout: BROWSER_CONNECT_TIMEOUT_MS,
+      })
+    },
   }
-  
-  return { context, page }
 }
 
-async function extractSessionData(
-  context: BrowserContext, 
-  page: Page, 
-  sessionId: string, 
-  refs?: Record<string, { role: string; name: string; selector: string }>,
-  httpCredentials?: { username: string; password: string }
-): Promise<BrowserSession> {
-  const cookies = await context.cookies()
-  const url = page.url()
+// An already running Chrome with remote debugging enabled
+function createCdpProvider(): BrowserProvider {
+  if (!BROWSER_CDP_URL) throw new Error('BROWSER_CDP_URL environment variable is required for the cdp browser provider')
+  return {
+    name: 'cdp',
+    launch: async () => {
+      console.log('Connecting to Chrome via CDP...')
+      return await playwright.connectOverCDP(BROWSER_CDP_URL, { timeout: BROWSER_CONNECT_TIMEOUT_MS })
+    },
+    persistentEndpoint: { url: BROWSER_CDP_URL, browserlessReconnect: false },
+  }
+}
+
+function createBrowserlessProvider(): BrowserProvider {
+  if (!BROWSERLESS_TOKEN) throw new Error('BROWSERLESS_TOKEN environment variable is required for the browserless browser provider. Get a free API key at https://browserless.io')
+  const launchOptions = encodeURIComponent(JSON.stringify({ headless: BROWSER_HEADLESS, args: BROWSER_ARGS }))
+  return {
+    name: 'browserless',
+    launch: async () => {
+      console.log(`Connecting to Browserless cloud browser (${BROWSERLESS_HOST}) via Playwright...`)
+      return await playwright.connect(
+        `wss://${BROWSERLESS_HOST}/chromium/playwright?token=${BROWSERLESS_TOKEN}&launch=${launchOptions}`,
+        { timeout: BROWSER_CONNECT_TIMEOUT_MS }
+      )
+    },
+    persistentEndpoint: {
+      url: `wss://${BROWSERLESS_HOST}?token=${BROWSERLESS_TOKEN}&launch=${launchOptions}`,
+      browserlessReconnect: true,
+    },
+  }
+}
+
+// Any Playwright websocket endpoint, e.g. a launchServer instance
+function createPlaywrightProvider(): BrowserProvider {
+  if (!BROWSERLESS_URL) throw new Error('BROWSERLESS_URL environment variable is required for the playwright browser provider')
+  return {
+    name: 'playwright',
+    launch: async () => {
+      console.log('Connecting to custom browser endpoint...')
+      return await playwright.connect(BROWSERLESS_URL, { timeout: BROWSER_CONNECT_TIMEOUT_MS })
+    },
+  }
+}
+
+function createBrowserProvider(): BrowserProvider {
+  const providerName = resolveBrowserProviderName()
   
-  let localStorage: Record<string, string> = {}
-  try {
-    localStorage = await page.evaluate(() => {
-      const storage: Record<string, string> = {}
-      for (let i = 0; i < window.localStorage.length; i++) {
-        const key = window.localStorage.key(i)
-        if (key) {
-          storage[key] = window.localStorage.getItem(key) || ''
-        }
-      }
-      return storage
-    })
-  } catch {
-    // localStorage might not be available on some pages
+  switch (providerName) {
+    case 'local':
+      return createLocalProvider()
+    case 'cdp':
+      return createCdpProvider()
+    case 'browserless':
+      return createBrowserlessProvider()
+    case 'playwright':
+      return createPlaywrightProvider()
+    case null:
+      throw new Error(NO_BROWSER_PROVIDER_MESSAGE)
+    default:
+      throw new Error(`Unknown BROWSER_PROVIDER: ${providerName} (expected ${BROWSER_PROVIDER_NAMES.join(', ')})`)
+  }
+}
+
+let browserProvider: BrowserProvider | null = null
+
+function getBrowserProvider(): BrowserProvider {
+  browserProvider ??= createBrowserProvider()
+  return browserProvider
+}
+
+// Browser management
+async function launchBrowser(): Promise<Browser> {
+  return await getBrowserProvider().launch()
+}
+
+function getPersistentEndpoint(): { url: string; browserlessReconnect: boolean } {
+  if (PERSISTENT_BROWSER_URL) {
+    return { url: PERSISTENT_BROWSER_URL, browserlessReconnect: false }
   }
   
-  return {
-    id: sessionId,
-    url,
-    cookies: cookies.map(c => ({
-      name: c.name,
-      value: c.value,
-      domain: c.domain,
-      path: c.path,
-      expires: c.expires,
-      httpOnly: c.httpOnly,
-      secure: c.secure,
-      sameSite: c.sameSite as 'Strict' | 'Lax' | 'None' | undefined,
-    })),
-    localStorage,
-    refs,
-    httpCredentials,
-    createdAt: Date.now(),
-    updatedAt: Date.now(),
+  const provider = getBrowserProvider()
+  if (!provider.persistentEndpoint) {
+    throw new Error(`Persistent sessions are not supported by the ${provider.name} browser provider. Use browserless or cdp, or set PERSISTENT_BROWSER_URL`)
   }
+  return provider.persistentEndpoint
 }
 
-// Accessibility snapshot helper
-async function getAccessibilitySnapshot(page: Page): Promise<{ snapshot: string; refs: Record<string, { role: string; name: string; selector: string }> }> {
-  const snapshot = await page.accessibility.snapshot({ interestingOnly: true })
-  const refs: Record<string, { role: string; name: string; selector: string }> = {}
-  let refCounter = 1
+// Persistent sessions use the default context of the endpoint's browser, so a fixed endpoint
+// (cdp or PERSISTENT_BROWSER_URL) serves one session at a time; Browserless starts a browser per session
+interface EndpointLease {
+  sessionId: string
+}
+
+function endpointLeaseKey(): string | null {
+  const endpoint = getPersistentEndpoint()
+  return endpoint.browserlessReconnect ? null : `browser_endpoint:${endpoint.url}`
+}
+
+// Renewed on every call of the session, like the session record itself
+async function claimPersistentEndpoint(sessionId: string): Promise<void> {
+  const key = endpointLeaseKey()
+  if (!key) return
   
-  function processNode(node: any, path: string[] = []): string {
-    if (!node) return ''
-    
-    const lines: string[] = []
-    const indent = '  '.repeat(path.length)
-    const role = node.role || 'unknown'
-    const name = node.name || ''
-    
-    // Generate ref for interactive elements
-    let refStr = ''
-    if (['button', 'link', 'textbox', 'checkbox', 'radio', 'combobox', 'menuitem', 'tab'].includes(role)) {
-      const refId = `e${refCounter++}`
-      refs[refId] = {
-        role,
-        name,
-        selector: generateSelector(role, name),
-      }
-      refStr = ` [ref=${refId}]`
+  const store = getSessionStore()
+  const lease = await store.get<EndpointLease>(key)
+  if (lease && lease.sessionId !== sessionId) {
+    // The lease of a session that expired without browser_close is taken over
+    const owner = await getSession(lease.sessionId)
+    if (owner?.persistent) {
+      throw new Error(`The persistent browser is in use by session ${lease.sessionId}. Close it with browser_close before starting another persistent session`)
     }
-    
-    let line = `${indent}- ${role}`
-    if (name) line += ` "${name}"`
-    line += refStr
-    lines.push(line)
-    
-    if (node.children) {
-      for (const child of node.children) {
-        const childOutput = processNode(child, [...path, role])
-        if (childOutput) lines.push(childOutput)
-      }
-    }
-    
-    return lines.join('\n')
   }
+  await store.set<EndpointLease>(key, { sessionId }, SESSION_TTL)
+}
+
+async function releasePersistentEndpoint(sessionId: string): Promise<void> {
+  const key = endpointLeaseKey()
+  if (!key) return
   
-  function generateSelector(role: string, name: string): string {
-    if (name) {
-      return `role=${role}[name="${name.replace(/"/g, '\\"')}"]`
+  const store = getSessionStore()
+  const lease = await store.get<EndpointLease>(key)
+  if (lease?.sessionId === sessionId) {
+    await store.delete(key)
+  }
+}
+
+// Persistent sessions connect over CDP so the default context outlives the connection
+async function launchPersistentBrowser(): Promise<Browser> {
+  console.log('Connecting to persistent browser endpoint...')
+  return await playwright.connectOverCDP(getPersistentEndpoint().url, { timeout: BROWSER_CONNECT_TIMEOUT_MS })
+}
+
+// Reconnect to the page a persistent session left open; null if the remote browser is gone
+async function attachRemotePage(remote: RemoteBrowser): Promise<{ browser: Browser; context: BrowserContext; page: Page } | null> {
+  let browser: Browser
+  try {
+    browser = await playwright.connectOverCDP(remoteConnectUrl(remote), { timeout: 10000 })
+  } catch (error) {
+    console.log('Persistent browser is no longer reachable:', error instanceof Error ? error.message : error)
+    return null
+  }
+  
+  for (const context of browser.contexts()) {
+    for (const page of context.pages()) {
+      const targetId = await getTargetId(page).catch(() => null)
+      if (targetId === remote.targetId) {
+        return { browser, context, page }
+      }
     }
-    return `role=${role}`
   }
   
-  const snapshotText = processNode(snapshot)
-  return { snapshot: snapshotText, refs }
+  console.log(`Persistent page ${remote.targetId} was not found in the remote browser`)
+  await browser.close().catch(() => {})
+  return null
 }
 
-// Tool definitions
+// Browserless hands out its reconnect endpoint without the API token, so it is added on connect rather than stored
+function remoteConnectUrl(remote: RemoteBrowser): string {
+  if (!BROWSERLESS_TOKEN || !getPersistentEndpoint().browserlessReconnect) return remote.endpoint
+  const url = new URL(remote.endpoint)
+  if (!url.searchParams.has('token')) url.searchParams.set('token', BROWSERLESS_TOKEN)
+  return url.toString()
+}
+
+async function getTargetId(page: Page): Promise<string> {
+  const cdp = await page.context().newCDPSession(page)
+  try {
+    const { targetInfo } = await cdp.send('Target.getTargetInfo')
+    return targetInfo.targetId
+  } finally {
+    await cdp.detach().catch(() => {})
+  }
+}
+
+// CDP method Browserless adds on top of Chrome's; Playwright's protocol types do not include it
+interface BrowserlessCDPSession {
+  send(method: 'Browserless.reconnect', params: { timeout: number }): Promise<{ error?: string; browserWSEndpoint?: string }>
+}
+
+// Ask the remote browser to survive the upcoming disconnect and return where to reattach
+async function keepRemoteAlive(page: Page): Promise<RemoteBrowser> {
+  const targetId = await getTargetId(page)
+  
+  const persistentEndpoint = getPersistentEndpoint()
+  if (!persistentEndpoint.browserlessReconnect) {
+    return { endpoint: persistentEndpoint.url, targetId }
+  }
+  
+  // Browserless closes the browser on disconnect unless a reconnect is requested
+  const cdp = await page.context().newCDPSession(page)
+  try {
+    const { error, browserWSEndpoint } = await (cdp as unknown as BrowserlessCDPSession).send('Browserless.reconnect', { timeout: PERSISTENT_KEEPALIVE_MS })
+    if (error || !browserWSEndpoint) {
+      throw new Error(`Browserless reconnect failed: ${error ?? 'no endpoint returned'}`)
+    }
+    return { endpoint: browserWSEndpoint, targetId }
+  } finally {
+    await cdp.detach().catch(() => {})
+  }
+}
+
+const DEFAULT_VIEWPORT = { width: 1280, height: 720 }
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+const COLOR_SCHEMES = ['light', 'dark', 'no-preference']
+const REDUCED_MOTION = ['reduce', 'no-preference']
+
+type DeviceDescriptor = (typeof devices)[keyof typeof devices]
+
+// Device settings of a profile: the named descriptor with the custom fields on top
+function resolveDevice(emulation?: EmulationProfile): Partial<DeviceDescriptor> {
+  const descriptor: Partial<DeviceDescriptor> = emulation?.device
+    ? (devices as Record<string, DeviceDescriptor>)[emulation.device] ?? {}
+    : {}
+  return {
+    viewport: emulation?.viewport ?? descriptor.viewport,
+    deviceScaleFactor: emulation?.deviceScaleFactor ?? descriptor.deviceScaleFactor,
+    isMobile: emulation?.isMobile ?? descriptor.isMobile,
+    hasTouch: emulation?.hasTouch ?? descriptor.hasTouch,
+    userAgent: emulation?.userAgent ?? descriptor.userAgent,
+  }
+}
+
+// Geolocation cannot be read without its permission, so setting a position grants it
+function grantedPermissions(emulation?: EmulationProfile): string[] {
+  const permissions = new Set(emulation?.permissions ?? [])
+  if (emulation?.geolocation) permissions.add('geolocation')
+  return [...permissions]
+}
+
+function emulationContextOptions(emulation?: EmulationProfile): BrowserContextOptions {
+  const device = resolveDevice(emulation)
+  const permissions = grantedPermissions(emulation)
+  return {
+    viewport: device.viewport ?? DEFAULT_VIEWPORT,
+    userAgent: device.userAgent ?? DEFAULT_USER_AGENT,
+    ...(device.deviceScaleFactor !== undefined ? { deviceScaleFactor: device.deviceScaleFactor } : {}),
+    ...(device.isMobile !== undefined ? { isMobile: device.isMobile } : {}),
+    ...(device.hasTouch !== undefined ? { hasTouch: device.hasTouch } : {}),
+    ...(emulation?.locale ? { locale: emulation.locale } : {}),
+    ...(emulation?.timezoneId ? { timezoneId: emulation.timezoneId } : {}),
+    ...(emulation?.colorScheme ? { colorScheme: emulation.colorScheme } : {}),
+    ...(emulation?.reducedMotion ? { reducedMotion: emulation.reducedMotion } : {}),
+    ...(emulation?.geolocation ? { geolocation: emulation.geolocation } : {}),
+    ...(permissions.length > 0 ? { permissions } : {}),
+  }
+}
+
+// Persistent sessions use the browser's default context, which cannot be created with options,
+// so the profile is applied to the page instead; the overrides last until the call disconnects
+async function emulatePage(page: Page, emulation?: EmulationProfile): Promise<void> {
+  const device = resolveDevice(emulation)
+  const viewport = device.viewport ?? DEFAULT_VIEWPORT
+  const context = page.context()
+  const scaled = device.deviceScaleFactor !== undefined || device.isMobile !== undefined
+  
+  if (scaled || device.hasTouch || device.userAgent || emulation?.locale || emulation?.timezoneId) {
+    const cdp = await context.newCDPSession(page)
+    if (scaled) {
+      await cdp.send('Emulation.setDeviceMetricsOverride', {
+        ...viewport,
+        deviceScaleFactor: device.deviceScaleFactor ?? 1,
+        mobile: device.isMobile ?? false,
+      })
+    }
+    if (device.hasTouch) {
+      await cdp.send('Emulation.setTouchEmulationEnabled', { enabled: true })
+    }
+    if (device.userAgent || emulation?.locale) {
+      await cdp.send('Emulation.setUserAgentOverride', {
+        userAgent: device.userAgent ?? await page.evaluate(() => navigator.userAgent),
+        ...(emulation?.locale ? { acceptLanguage: emulation.locale } : {}),
+      })
+    }
+    if (emulation?.locale) {
+      await cdp.send('Emulation.setLocaleOverride', { locale: emulation.locale })
+    }
+    if (emulation?.timezoneId) {
+      await cdp.send('Emulation.setTimezoneOverride', { timezoneId: emulation.timezoneId })
+    }
+  }
+  if (!scaled) {
+    await page.setViewportSize(viewport)
+  }
+  
+  if (emulation?.colorScheme || emulation?.reducedMotion) {
+    await page.emulateMedia({ colorScheme: emulation.colorScheme, reducedMotion: emulation.reducedMotion })
+  }
+  if (emulation?.geolocation) {
+    await context.setGeolocation(emulation.geolocation)
+  }
+  const permissions = grantedPermissions(emulation)
+  if (permissions.length > 0) {
+    await context.grantPermissions(permissions)
+  }
+}
+
+// Only the fields present in args are returned, so the result can be merged into an existing profile
+function parseEmulationProfile(args: Record<string, unknown>): EmulationProfile {
+  const profile: EmulationProfile = {}
+  
+  if (args.device !== undefined) {
+    const device = args.device as string
+    if (!(device in devices)) {
+      throw new Error(`Unknown device "${device}". Use a Playwright device name such as "iPhone 13", "Pixel 7" or "iPad Mini"`)
+    }
+    profile.device = device
+  }
+  if (args.viewport !== undefined) {
+    const viewport = args.viewport as { width?: number; height?: number }
+    if (!Number.isInteger(viewport?.width) || !Number.isInteger(viewport?.height) || viewport.width! <= 0 || viewport.height! <= 0) {
+      throw new Error('viewport must have positive integer width and height')
+    }
+    profile.viewport = { width: viewport.width!, height: viewport.height! }
+  }
+  if (args.device_scale_factor !== undefined) {
+    const scale = args.device_scale_factor as number
+    if (typeof scale !== 'number' || scale <= 0 || scale > 4) {
+      throw new Error('device_scale_factor must be a number between 0 and 4')
+    }
+    profile.deviceScaleFactor = scale
+  }
+  if (args.is_mobile !== undefined) profile.isMobile = Boolean(args.is_mobile)
+  if (args.has_touch !== undefined) profile.hasTouch = Boolean(args.has_touch)
+  if (args.user_agent !== undefined) profile.userAgent = args.user_agent as string
+  
+  if (args.locale !== undefined) {
+    try {
+      profile.locale = Intl.getCanonicalLocales(args.locale as string)[0]
+    } catch {
+      throw new Error(`Invalid locale: ${args.locale}`)
+    }
+  }
+  if (args.timezone !== undefined) {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: args.timezone as string })
+    } catch {
+      throw new Error(`Invalid timezone: ${args.timezone}`)
+    }
+    profile.timezoneId = args.timezone as string
+  }
+  if (args.color_scheme !== undefined) {
+    if (!COLOR_SCHEMES.includes(args.color_scheme as string)) {
+      throw new Error(`color_scheme must be one of: ${COLOR_SCHEMES.join(', ')}`)
+    }
+    profile.colorScheme = args.color_scheme as EmulationProfile['colorScheme']
+  }
+  if (args.reduced_motion !== undefined) {
+    if (!REDUCED_MOTION.includes(args.reduced_motion as string)) {
+      throw new Error(`reduced_motion must be one of: ${REDUCED_MOTION.join(', ')}`)
+    }
+    profile.reducedMotion = args.reduced_motion as EmulationProfile['reducedMotion']
+  }
+  
+  if (args.geolocation !== undefined) {
+    const { latitude, longitude, accuracy } = args.geolocation as { latitude?: number; longitude?: number; accuracy?: number }
+    if (typeof latitude !== 'number' || latitude < -90 || latitude > 90) {
+      throw new Error('geolocation.latitude must be between -90 and 90')
+    }
+    if (typeof longitude !== 'number' || longitude < -180 || longitude > 180) {
+      throw new Error('geolocation.longitude must be between -180 and 180')
+    }
+    profile.geolocation = { latitude, longitude, ...(accuracy !== undefined ? { accuracy } : {}) }
+  }
+  if (args.permissions !== undefined) {
+    if (!Array.isArray(args.permissions) || args.permissions.some(permission => typeof permission !== 'string')) {
+      throw new Error('permissions must be an array of permission names')
+    }
+    profile.permissions = args.permissions as string[]
+  }
+  
+  return profile
+}
+
+// Effective settings of a profile, in the shape the tools accept them
+function describeEmulation(emulation?: EmulationProfile): Record<string, unknown> {
+  const device = resolveDevice(emulation)
+  return {
+    ...(emulation?.device ? { device: emulation.device } : {}),
+    viewport: device.viewport ?? DEFAULT_VIEWPORT,
+    device_scale_factor: device.deviceScaleFactor ?? 1,
+    is_mobile: device.isMobile ?? false,
+    has_touch: device.hasTouch ?? false,
+    user_agent: device.userAgent ?? DEFAULT_USER_AGENT,
+    ...(emulation?.locale ? { locale: emulation.locale } : {}),
+    ...(emulation?.timezoneId ? { timezone: emulation.timezoneId } : {}),
+    ...(emulation?.colorScheme ? { color_scheme: emulation.colorScheme } : {}),
+    ...(emulation?.reducedMotion ? { reduced_motion: emulation.reducedMotion } : {}),
+    ...(emulation?.geolocation ? { geolocation: emulation.geolocation } : {}),
+    permissions: grantedPermissions(emulation),
+  }
+}
+
+// Reattach to a persistent session's live page, or launch a browser and restore from storage
+async function openSessionPage(
+  session: BrowserSession | null,
+  httpCredentials?: { username: string; password: string },
+  targetUrl?: string,
+  persistent = session?.persistent ?? false,
+  emulation = session?.emulation
+): Promise<{ browser: Browser; context: BrowserContext; page: Page; reattached: boolean }> {
+  if (persistent && session) {
+    await claimPersistentEndpoint(session.id)
+  }
+  if (persistent && session?.remote) {
+    const attached = await attachRemotePage(session.remote)
+    if (attached) {
+      // Route handlers live on the client connection, so the previous call's are gone
+      if (session.routes && session.routes.length > 0) {
+        await applyRoutes(attached.page.context(), session.routes)
+      }
+      // So do the emulation overrides
+      if (emulation) {
+        await emulatePage(attached.page, emulation)
+      }
+      // The live page already holds the session state, so only navigate when asked to go elsewhere
+      if (targetUrl && targetUrl !== session.url) {
+        await attached.page.goto(targetUrl, { waitUntil: 'networkidle', timeout: 30000 })
+      }
+      return { ...attached, reattached: true }
+    }
+    console.log('Falling back to cookie/localStorage restore')
+  }
+  
+  const browser = persistent ? await launchPersistentBrowser() : await launchBrowser()
+  try {
+    const { context, page } = await setupPage(browser, session, httpCredentials, targetUrl, persistent, emulation)
+    return { browser, context, page, reattached: false }
+  } catch (error) {
+    await browser.close().catch(() => {})
+    throw error
+  }
+}
+
+async function setupPage(
+  browser: Browser, 
+  session: BrowserSession | null,
+  httpCredentials?: { username: string; password: string },
+  targetUrl?: string,
+  persistent = false,
+  emulation = session?.emulation
+): Promise<{ context: BrowserContext; page: Page }> {
+  // Use credentials from parameter, session, or none
+  const credentials = httpCredentials || session?.httpCredentials
+  
+  let context: BrowserContext
+  if (persistent) {
+    // Contexts created over CDP are disposed on disconnect; the default one is kept
+    context = browser.contexts()[0]
+    // It outlives sessions, so drop whatever the previous session on this browser left behind
+    await context.clearCookies()
+    await context.clearPermissions()
+    // Credentials set by another session would otherwise still be sent
+    await context.setHTTPCredentials(credentials ?? null)
+  } else {
+    context = await browser.newContext({
+      ...emulationContextOptions(emulation),
+      httpCredentials: credentials,
+    })
+  }
+  
+  if (session?.routes && session.routes.length > 0) {
+    await applyRoutes(context, session.routes)
+  }
+  
+  // Restore cookies if session exists
+  if (session?.cookies && session.cookies.length > 0) {
+    await context.addCookies(session.cookies)
+  }
+  
+  const page = await context.newPage()
+  if (persistent) {
+    await emulatePage(page, emulation)
+  }
+  
+  // Restore the localStorage of the origin the page opens on; other origins' items stay in the session
+  const storageUrl = targetUrl ?? session?.url
+  const origin = storageUrl ? storageOrigin(storageUrl) : undefined
+  const storage = origin ? session?.localStorage?.[origin] : undefined
+  if (storage && Object.keys(storage).length > 0) {
+    await page.goto(storageUrl!, { waitUntil: 'domcontentloaded' })
+    await page.evaluate((items) => {
+      for (const [key, value] of Object.entries(items)) {
+        localStorage.setItem(key, value)
+      }
+    }, storage)
+  }
+  
+  if (targetUrl) {
+    await page.goto(targetUrl, { waitUntil: 'networkidle', timeout: 30000 })
+    
+    // Bring the page back to the state the previous calls left it in
+    if (session?.journal && session.journal.length > 0 && page.url() === session.url) {
+      await replayJournal(page, session.journal)
+    }
+  }
+  
+  return { context, page }
+}
+
+function describeJournalEntry(entry: JournalEntry): string {
+  switch (entry.action) {
+    case 'press_key':
+      return `press_key "${entry.key}"`
+    case 'click':
+      return `click ${entry.selector}`
+    case 'drag':
+      return `drag ${entry.selector} to ${entry.target?.selector}`
+    case 'click_at':
+      return `click_at (${entry.x}, ${entry.y})`
+    case 'scroll':
+      return `scroll ${entry.selector ?? 'page'}`
+    default:
+      return `${entry.action} ${entry.selector}`
+  }
+}
+
+async function replayJournal(page: Page, journal: JournalEntry[]): Promise<void> {
+  // Answer dialogs the way they were answered when the actions were first performed
+  let answers: DialogPolicy[] = []
+  const onDialog = (dialog: Dialog) => {
+    answerDialog(dialog, answers.shift() ?? DEFAULT_DIALOG_POLICY).catch(() => {})
+  }
+  page.on('dialog', onDialog)
+  
+  try {
+    for (const [index, entry] of journal.entries()) {
+      if (entry.popup) continue
+      answers = [...(entry.dialogs ?? [])]
+      try {
+        switch (entry.action) {
+          case 'fill':
+            await locateInFrames(page, entry.selector!, entry.frame).fill(entry.value ?? '', { timeout: 10000 })
+            break
+          case 'type':
+            await locateInFrames(page, entry.selector!, entry.frame).click({ timeout: 10000 })
+            await page.keyboard.type(entry.value ?? '')
+            if (entry.submit) {
+              await page.keyboard.press('Enter')
+              await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {})
+            }
+            break
+          case 'click':
+            await locateInFrames(page, entry.selector!, entry.frame).click({ ...clickOptions(entry), timeout: 10000 })
+            await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {})
+            break
+          case 'click_at':
+            await clickAt(page, entry.x!, entry.y!, entry)
+            await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {})
+            break
+          case 'hover':
+            await locateInFrames(page, entry.selector!, entry.frame).hover({ timeout: 10000 })
+            break
+          case 'check':
+          case 'uncheck':
+            await locateInFrames(page, entry.selector!, entry.frame).setChecked(entry.action === 'check', { timeout: 10000 })
+            break
+          case 'drag':
+            await locateInFrames(page, entry.selector!, entry.frame)
+              .dragTo(locateInFrames(page, entry.target!.selector, entry.target!.frame), { timeout: 10000 })
+            break
+          case 'scroll':
+            await scroll(page, entry.selector ? locateInFrames(page, entry.selector, entry.frame) : undefined, entry)
+            await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {})
+            break
+          case 'press_key':
+            await page.keyboard.press(entry.key!)
+            await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {})
+            break
+          case 'select':
+            await locateInFrames(page, entry.selector!, entry.frame).selectOption(entry.values ?? entry.value ?? '', { timeout: 10000 })
+            break
+          case 'upload':
+            throw new Error(
+              `the contents of ${(entry.files ?? []).map(file => file.name).join(', ')} are not kept between calls, so the file must be uploaded again. ` +
+              'Upload and submit the form in one browser_run_steps call, or use a persistent session'
+            )
+        }
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error)
+        throw new Error(
+          `Failed to replay session journal at step ${index + 1}/${journal.length} (${describeJournalEntry(entry)}): ${message}. ` +
+          'Call browser_open with this session_id to reset the page state.'
+        )
+      }
+    }
+  } finally {
+    page.off('dialog', onDialog)
+  }
+}
+
+function nextTabId(tabs: BrowserTab[]): string {
+  return `t${Math.max(0, ...tabs.map(tab => Number(tab.id.slice(1)) || 0)) + 1}`
+}
+
+// Tabs with the active one brought up to date with the page it is showing
+async function updateActiveTab(tabs: BrowserTab[], activeTabId: string, page: Page, targetId?: string): Promise<BrowserTab[]> {
+  const title = await page.title().catch(() => '')
+  const active: BrowserTab = { id: activeTabId, url: page.url(), title, ...(targetId ? { targetId } : {}) }
+  return tabs.some(tab => tab.id === activeTabId)
+    ? tabs.map(tab => tab.id === activeTabId ? active : tab)
+    : [...tabs, active]
+}
+
+// Make another tab the one restored on the next call; the current tab keeps its URL, journal and history
+function activateTab(session: BrowserSession, tabId: string): BrowserSession {
+  const tabs = (session.tabs ?? []).map(tab =>
+    tab.id === session.activeTabId ? { ...tab, url: session.url, journal: session.journal, history: session.history } : tab
+  )
+  const target = tabs.find(tab => tab.id === tabId)!
+  const { journal, history, ...targetTab } = target
+  
+  return {
+    ...session,
+    url: target.url,
+    journal: journal ?? [],
+    history,
+    refs: undefined,
+    refsUrl: undefined,
+    lastSnapshot: undefined,
+    remote: session.remote && target.targetId ? { endpoint: session.remote.endpoint, targetId: target.targetId } : undefined,
+    tabs: tabs.map(tab => tab.id === tabId ? targetTab : tab),
+    activeTabId: tabId,
+  }
+}
+
+// Journal after a step: actions accumulate while the page stays on the same URL
+// and are dropped once it navigates, since goto alone restores the new page
+function nextJournal(
+  journal: JournalEntry[],
+  startUrl: string,
+  endUrl: string,
+  entries: JournalEntry[] = []
+): JournalEntry[] {
+  if (endUrl !== startUrl) return []
+  return entries.length > 0 ? [...journal, ...entries] : journal
+}
+
+const MAX_HISTORY_ENTRIES = 50
+
+// Visiting a page drops the forward entries, like a browser does
+function pushHistory(history: NavigationHistory, url: string): NavigationHistory {
+  if (history.entries[history.index] === url) return history
+  const entries = [...history.entries.slice(0, history.index + 1), url].slice(-MAX_HISTORY_ENTRIES)
+  return { entries, index: entries.length - 1 }
+}
+
+function historyIndex(history: NavigationHistory, delta: number): number {
+  const index = history.index + delta
+  if (index < 0) throw new Error('There is no previous page in the session history')
+  if (index >= history.entries.length) throw new Error('There is no next page in the session history')
+  return index
+}
+
+// Network capture
+const MAX_NETWORK_ENTRIES = 100
+const DEFAULT_MAX_BODY_SIZE = 4096
+const TEXT_MIME_TYPE = /^(text\/|application\/(json|javascript|xml|x-www-form-urlencoded)|[^;]*\+(json|xml))/
+
+function truncateBody(body: Buffer, maxBodySize: number): { text: string; truncated: boolean } {
+  return {
+    text: body.subarray(0, maxBodySize).toString('utf8'),
+    truncated: body.length > maxBodySize,
+  }
+}
+
+async function toNetworkEntry(request: Request, maxBodySize: number, failure?: string): Promise<NetworkEntry> {
+  const timing = request.timing()
+  const entry: NetworkEntry = {
+    url: request.url(),
+    method: request.method(),
+    resourceType: request.resourceType(),
+    startedAt: new Date(timing.startTime > 0 ? timing.startTime : Date.now()).toISOString(),
+    requestHeaders: await request.allHeaders(),
+  }
+  if (timing.responseEnd >= 0) entry.duration = Math.round(timing.responseEnd)
+  
+  const postData = request.postDataBuffer()
+  if (postData) {
+    const { text, truncated } = truncateBody(postData, maxBodySize)
+    entry.requestBody = text
+    if (truncated) entry.bodyTruncated = true
+  }
+  
+  if (failure) {
+    entry.failure = failure
+    return entry
+  }
+  
+  const response = await request.response()
+  if (!response) return entry
+  entry.status = response.status()
+  entry.statusText = response.statusText()
+  entry.responseHeaders = await response.allHeaders()
+  entry.mimeType = entry.responseHeaders['content-type']
+  
+  // Redirects and some cached responses have no body to read
+  try {
+    const body = await response.body()
+    entry.responseSize = body.length
+    if (entry.mimeType && TEXT_MIME_TYPE.test(entry.mimeType)) {
+      const { text, truncated } = truncateBody(body, maxBodySize)
+      entry.responseBody = text
+      if (truncated) entry.bodyTruncated = true
+    }
+  } catch {
+    // No body
+  }
+  
+  return entry
+}
+
+// Record the page's finished and failed requests; the returned function resolves them once the actions are done
+function captureNetwork(page: Page, config: NetworkCaptureConfig): () => Promise<NetworkEntry[]> {
+  const pending: Array<Promise<NetworkEntry | null>> = []
+  const record = (request: Request, failure?: string) => {
+    if (config.urlFilter && !request.url().includes(config.urlFilter)) return
+    if (config.resourceTypes?.length && !config.resourceTypes.includes(request.resourceType())) return
+    pending.push(toNetworkEntry(request, config.maxBodySize, failure).catch(() => null))
+  }
+  
+  page.on('requestfinished', request => record(request))
+  page.on('requestfailed', request => record(request, request.failure()?.errorText ?? 'failed'))
+  
+  return async () => (await Promise.all(pending)).filter((entry): entry is NetworkEntry => entry !== null)
+}
+
+function filterNetworkEntries(entries: NetworkEntry[], args: Record<string, unknown>): NetworkEntry[] {
+  const urlFilter = args.url_filter as string | undefined
+  const resourceTypes = args.resource_types as string[] | undefined
+  const failedOnly = args.failed_only as boolean | undefined
+  
+  return entries.filter(entry =>
+    (!urlFilter || entry.url.includes(urlFilter)) &&
+    (!resourceTypes?.length || resourceTypes.includes(entry.resourceType)) &&
+    (!failedOnly || !!entry.failure || (entry.status ?? 0) >= 400)
+  )
+}
+
+function toHar(entries: NetworkEntry[]): Record<string, unknown> {
+  const headerList = (headers?: Record<string, string>) =>
+    Object.entries(headers ?? {}).map(([name, value]) => ({ name, value }))
+  const queryString = (url: string) => {
+    try {
+      return [...new URL(url).searchParams].map(([name, value]) => ({ name, value }))
+    } catch {
+      return []
+    }
+  }
+  
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'agent-browser-mcp-server', version: '1.0.0' },
+      entries: entries.map(entry => ({
+        startedDateTime: entry.startedAt,
+        time: entry.duration ?? 0,
+        request: {
+          method: entry.method,
+          url: entry.url,
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: headerList(entry.requestHeaders),
+          queryString: queryString(entry.url),
+          ...(entry.requestBody !== undefined
+            ? { postData: { mimeType: entry.requestHeaders['content-type'] ?? '', text: entry.requestBody } }
+            : {}),
+          headersSize: -1,
+          bodySize: entry.requestBody !== undefined ? Buffer.byteLength(entry.requestBody) : 0,
+        },
+        response: {
+          status: entry.status ?? 0,
+          statusText: entry.statusText ?? '',
+          httpVersion: 'HTTP/1.1',
+          cookies: [],
+          headers: headerList(entry.responseHeaders),
+          content: {
+            size: entry.responseSize ?? 0,
+            mimeType: entry.mimeType ?? '',
+            ...(entry.responseBody !== undefined ? { text: entry.responseBody } : {}),
+          },
+          redirectURL: entry.responseHeaders?.location ?? '',
+          headersSize: -1,
+          bodySize: entry.responseSize ?? -1,
+        },
+        cache: {},
+        timings: { send: 0, wait: entry.duration ?? 0, receive: 0 },
+        _resourceType: entry.resourceType,
+        ...(entry.failure ? { _failure: entry.failure } : {}),
+        ...(entry.bodyTruncated ? { _bodyTruncated: true } : {}),
+      })),
+    },
+  }
+}
+
+// Request routing
+const RESOURCE_TYPES = [
+  'document', 'stylesheet', 'image', 'media', 'font', 'script', 'texttrack',
+  'xhr', 'fetch', 'eventsource', 'websocket', 'manifest', 'other',
+]
+
+// Compares registrable domains (eTLD+1) using the Public Suffix List, including its private section,
+// so a.co.uk and b.co.uk or foo.github.io and bar.github.io are different sites
+function isThirdParty(request: Request): boolean {
+  let pageUrl: string
+  try {
+    pageUrl = request.frame().page().url()
+  } catch {
+    // Service worker requests have no frame
+    return false
+  }
+  const site = (url: string) => {
+    try {
+      const { hostname } = new URL(url)
+      // IP addresses and single-label hosts such as localhost are sites by themselves
+      return getDomain(hostname, { allowPrivateDomains: true }) ?? hostname
+    } catch {
+      return ''
+    }
+  }
+  const pageSite = site(pageUrl)
+  return !!pageSite && site(request.url()) !== pageSite
+}
+
+async function applyRoutes(context: BrowserContext, rules: RouteRule[]): Promise<void> {
+  // Playwright tries the most recently registered route first; register in reverse so earlier rules win
+  for (const rule of [...rules].reverse()) {
+    await context.route(rule.urlPattern ?? '**/*', async (route: Route) => {
+      const request = route.request()
+      if (
+        (rule.resourceTypes?.length && !rule.resourceTypes.includes(request.resourceType())) ||
+        (rule.thirdParty && !isThirdParty(request))
+      ) {
+        await route.fallback()
+        return
+      }
+      
+      if (rule.action === 'abort') {
+        await route.abort('blockedbyclient')
+      } else {
+        await route.fulfill({
+          status: rule.status ?? 200,
+          headers: rule.headers,
+          contentType: rule.contentType,
+          body: rule.body ?? '',
+        })
+      }
+    })
+  }
+}
+
+function nextRouteId(rules: RouteRule[]): string {
+  return `r${Math.max(0, ...rules.map(rule => Number(rule.id.slice(1)) || 0)) + 1}`
+}
+
+function parseRouteRule(action: 'mock' | 'abort', args: Record<string, unknown>, rules: RouteRule[]): RouteRule {
+  const rule: RouteRule = { id: nextRouteId(rules), action }
+  if (args.url_pattern) rule.urlPattern = args.url_pattern as string
+  if (Array.isArray(args.resource_types) && args.resource_types.length > 0) {
+    const unknown = (args.resource_types as string[]).filter(type => !RESOURCE_TYPES.includes(type))
+    if (unknown.length > 0) {
+      throw new Error(`Unknown resource types: ${unknown.join(', ')} (expected ${RESOURCE_TYPES.join(', ')})`)
+    }
+    rule.resourceTypes = args.resource_types as string[]
+  }
+  if (args.third_party) rule.thirdParty = true
+  
+  if (action === 'mock') {
+    if (!rule.urlPattern) throw new Error('url_pattern is required')
+    if (args.status !== undefined) rule.status = args.status as number
+    if (args.headers) rule.headers = args.headers as Record<string, string>
+    if (args.content_type) rule.contentType = args.content_type as string
+    if (typeof args.body === 'string') {
+      rule.body = args.body
+    } else if (args.body !== undefined) {
+      rule.body = JSON.stringify(args.body)
+      rule.contentType ??= 'application/json'
+    }
+  } else if (!rule.urlPattern && !rule.resourceTypes && !rule.thirdParty) {
+    throw new Error('url_pattern, resource_types, or third_party is required')
+  }
+  return rule
+}
+
+// Content extraction
+const EXTRACT_MODES = ['markdown', 'links', 'tables']
+const DEFAULT_EXTRACT_MAX_LENGTH = 10000
+
+// One page of extracted output; items are taken whole until their JSON reaches maxLength
+function paginateItems<T>(items: T[], cursor: number, maxLength: number): { items: T[]; next?: number } {
+  const taken: T[] = []
+  let length = 0
+  for (let i = cursor; i < items.length; i++) {
+    length += JSON.stringify(items[i]).length
+    if (length > maxLength && taken.length > 0) return { items: taken, next: i }
+    taken.push(items[i])
+  }
+  return { items: taken }
+}
+
+// Forms
+interface FormField {
+  label: string
+  name?: string
+  type: string
+  required: boolean
+  disabled?: boolean
+  // Checked state for checkboxes, selected values for multi-selects
+  value: string | boolean | string[]
+  options?: Array<{ label: string; value: string; selector?: string }>
+  validation_message?: string
+  // CSS selector of the control, usable with the other tools
+  selector: string
+}
+
+// Runs in the page, so it must not reference anything outside itself. Called on the document
+// element, it inspects the first form with visible fields, or the whole body if there is none
+function inspectForm(target: Element): { fields: FormField[]; errors: string[] } {
+  const isVisible = (element: Element) => {
+    const style = getComputedStyle(element)
+    const rect = element.getBoundingClientRect()
+    return style.display !== 'none' && style.visibility !== 'hidden' && (rect.width > 0 || rect.height > 0)
+  }
+  const text = (element: Element | null) => (element?.textContent ?? '').replace(/\s+/g, ' ').trim()
+  const textOfIds = (ids: string | null) =>
+    (ids ?? '').split(/\s+/).filter(Boolean).map(id => text(document.getElementById(id))).filter(Boolean).join(' ')
+  
+  let root = target
+  if (target === document.documentElement) {
+    root = [...document.forms].find(form => [...form.elements].some(isVisible)) ?? document.body
+  }
+  
+  // Text of a <label> without the text of the controls inside it
+  const labelText = (label: HTMLLabelElement) => {
+    const clone = label.cloneNode(true) as Element
+    clone.querySelectorAll('input, select, textarea, button').forEach(control => control.remove())
+    return text(clone)
+  }
+  const labelOf = (control: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement) =>
+    textOfIds(control.getAttribute('aria-labelledby')) ||
+    control.getAttribute('aria-label') ||
+    [...(control.labels ?? [])].map(labelText).filter(Boolean).join(' ') ||
+    control.getAttribute('placeholder') ||
+    control.getAttribute('title') ||
+    control.name ||
+    ''
+  
+  const unique = (selector: string) => document.querySelectorAll(selector).length === 1
+  const selectorOf = (element: Element): string => {
+    if (element.id && unique(`#${CSS.escape(element.id)}`)) return `#${CSS.escape(element.id)}`
+    const name = element.getAttribute('name')
+    if (name) {
+      let selector = `${element.tagName.toLowerCase()}[name="${CSS.escape(name)}"]`
+      if ((element as HTMLInputElement).type === 'radio') selector += `[value="${CSS.escape((element as HTMLInputElement).value)}"]`
+      if (unique(selector)) return selector
+    }
+    const parts: string[] = []
+    for (let node: Element | null = element; node && node !== document.documentElement; node = node.parentElement) {
+      if (node.id && unique(`#${CSS.escape(node.id)}`)) {
+        parts.unshift(`#${CSS.escape(node.id)}`)
+        break
+      }
+      const tag = node.tagName
+      const index = node.parentElement ? [...node.parentElement.children].filter(child => child.tagName === tag).indexOf(node) + 1 : 1
+      parts.unshift(`${tag.toLowerCase()}:nth-of-type(${index})`)
+    }
+    return parts.join(' > ')
+  }
+  
+  // Messages the page shows: aria-invalid with its error text, or native validation after user input
+  const validationOf = (control: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement) => {
+    if (control.getAttribute('aria-invalid') === 'true') {
+      return textOfIds(control.getAttribute('aria-errormessage')) ||
+        textOfIds(control.getAttribute('aria-describedby')) ||
+        control.validationMessage ||
+        'invalid'
+    }
+    try {
+      if (control.matches(':user-invalid')) return control.validationMessage
+    } catch {
+      // :user-invalid is not supported
+    }
+    return undefined
+  }
+  
+  const fields: FormField[] = []
+  const radioGroups = new Map<string, FormField>()
+  const controls = root.querySelectorAll<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>('input, select, textarea')
+  
+  for (const control of controls) {
+    const type = control.type
+    if (['hidden', 'submit', 'button', 'reset', 'image'].includes(type) || !isVisible(control)) continue
+    const validation = validationOf(control)
+    
+    if (type === 'radio') {
+      const radio = control as HTMLInputElement
+      const option = { label: labelOf(radio), value: radio.value, selector: selectorOf(radio) }
+      const group = radioGroups.get(radio.name)
+      if (group) {
+        group.options!.push(option)
+        if (radio.checked) group.value = radio.value
+        group.required ||= radio.required
+        if (validation) group.validation_message ??= validation
+        continue
+      }
+      // A radio group is labelled by its fieldset or radiogroup rather than by one of its buttons
+      const container = radio.closest('fieldset, [role="radiogroup"]')
+      const field: FormField = {
+        label: (container?.tagName === 'FIELDSET' ? text(container.querySelector('legend')) : '') ||
+          (container ? textOfIds(container.getAttribute('aria-labelledby')) || container.getAttribute('aria-label') || '' : '') ||
+          radio.name || option.label,
+        ...(radio.name ? { name: radio.name } : {}),
+        type,
+        required: radio.required,
+        value: radio.checked ? radio.value : '',
+        options: [option],
+        ...(validation ? { validation_message: validation } : {}),
+        selector: radio.name ? `input[type="radio"][name="${CSS.escape(radio.name)}"]` : option.selector,
+      }
+      if (radio.name) radioGroups.set(radio.name, field)
+      fields.push(field)
+      continue
+    }
+    
+    let value: FormField['value'] = control.value
+    let options: FormField['options']
+    if (control instanceof HTMLSelectElement) {
+      options = [...control.options].map(option => ({ label: text(option), value: option.value }))
+      if (control.multiple) value = [...control.selectedOptions].map(option => option.value)
+    } else if (type === 'checkbox') {
+      value = (control as HTMLInputElement).checked
+    } else if (type === 'password') {
+      value = control.value ? '********' : ''
+    }
+    
+    fields.push({
+      label: labelOf(control),
+      ...(control.name ? { name: control.name } : {}),
+      type,
+      required: control.required || control.getAttribute('aria-required') === 'true',
+      ...(control.disabled ? { disabled: true } : {}),
+      value,
+      ...(options ? { options } : {}),
+      ...(validation ? { validation_message: validation } : {}),
+      selector: selectorOf(control),
+    })
+  }
+  
+  const errors = [...root.querySelectorAll('[role="alert"]')].filter(isVisible).map(text).filter(Boolean)
+  return { fields, errors }
+}
+
+function findFormField(fields: FormField[], label: string): FormField | undefined {
+  const wanted = label.trim().toLowerCase()
+  return fields.find(field => field.label.toLowerCase() === wanted) ??
+    fields.find(field => field.name?.toLowerCase() === wanted)
+}
+
+function isTruthy(value: unknown): boolean {
+  return value === true || (typeof value === 'string' && ['true', 'on', 'yes', '1'].includes(value.toLowerCase()))
+}
+
+// Set-of-marks annotation: numbered boxes drawn over the elements of the snapshot refs
+const MARKS_OVERLAY_ID = '__mcp_ref_marks'
+
+async function drawRefMarks(page: Page, refs: Record<string, ElementRef>): Promise<string[]> {
+  const marks: Array<{ ref: string; x: number; y: number; width: number; height: number }> = []
+  for (const [ref, data] of Object.entries(refs)) {
+    // Bounding boxes are relative to the main frame's viewport, even for elements inside iframes
+    const box = await locateInFrames(page, data.selector, data.frame).boundingBox({ timeout: 1000 }).catch(() => null)
+    if (box && box.width > 0 && box.height > 0) marks.push({ ref, ...box })
+  }
+  
+  await page.evaluate(({ marks, id }) => {
+    const overlay = document.createElement('div')
+    overlay.id = id
+    overlay.style.cssText = 'position:absolute;left:0;top:0;width:0;height:0;z-index:2147483647;pointer-events:none'
+    for (const mark of marks) {
+      const box = document.createElement('div')
+      box.style.cssText =
+        `position:absolute;left:${mark.x + window.scrollX}px;top:${mark.y + window.scrollY}px;` +
+        `width:${mark.width}px;height:${mark.height}px;border:2px solid #e5007a;box-sizing:border-box`
+      const label = document.createElement('span')
+      label.textContent = mark.ref
+      label.style.cssText = 'position:absolute;left:0;top:0;background:#e5007a;color:#fff;font:bold 11px/1.2 monospace;padding:0 2px'
+      box.appendChild(label)
+      overlay.appendChild(box)
+    }
+    document.documentElement.appendChild(overlay)
+  }, { marks, id: MARKS_OVERLAY_ID })
+  
+  return marks.map(mark => mark.ref)
+}
+
+async function removeRefMarks(page: Page): Promise<void> {
+  await page.evaluate(id => document.getElementById(id)?.remove(), MARKS_OVERLAY_ID).catch(() => {})
+}
+
+// Page JavaScript evaluation
+function canEvaluate(authToken: string | null): boolean {
+  if (!BROWSER_EVALUATE_ENABLED) return false
+  return BROWSER_EVALUATE_TOKENS.length === 0 || (!!authToken && BROWSER_EVALUATE_TOKENS.includes(authToken))
+}
+
+// Scripts are passed to Playwright as strings, which run over CDP and are not blocked by the page's CSP
+async function evaluateScript(page: Page, source: string, isBody: boolean, target?: Locator): Promise<unknown> {
+  const fn = isBody ? `async (element) => {\n${source}\n}` : `async (element) => (\n${source}\n)`
+  
+  const run = async (): Promise<unknown> => {
+    if (!target) return await page.evaluate(`(${fn})(undefined)`)
+    
+    // Hand the element to the script through a temporary global in the element's own frame
+    const handle = await target.elementHandle({ timeout: 10000 })
+    if (!handle) throw new Error('Could not find the element to evaluate against')
+    const frame = (await handle.ownerFrame()) ?? page.mainFrame()
+    const name = `__mcpEvaluate${randomUUID().replace(/-/g, '')}`
+    try {
+      await handle.evaluate((element, name) => {
+        (window as unknown as Record<string, unknown>)[name] = element
+      }, name)
+      return await frame.evaluate(`(${fn})(window.${name})`)
+    } finally {
+      await frame.evaluate(`delete window.${name}`).catch(() => {})
+      await handle.dispose()
+    }
+  }
+  
+  let timer: NodeJS.Timeout | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Script did not finish within ${BROWSER_EVALUATE_TIMEOUT_MS}ms`)), BROWSER_EVALUATE_TIMEOUT_MS)
+  })
+  try {
+    return await Promise.race([run(), timeout])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+// Pointer interactions
+const MOUSE_BUTTONS = ['left', 'right', 'middle']
+const KEY_MODIFIERS = ['Alt', 'Control', 'ControlOrMeta', 'Meta', 'Shift']
+const SCROLL_DIRECTIONS = ['up', 'down', 'left', 'right', 'top', 'bottom']
+const DEFAULT_SCROLL_AMOUNT = 600
+
+type ClickOptions = Pick<JournalEntry, 'button' | 'clickCount' | 'modifiers'>
+
+// Only the options that were given, so plain clicks are journaled as before
+function clickOptions(source: { button?: unknown; clickCount?: unknown; modifiers?: unknown }): ClickOptions {
+  const options: ClickOptions = {}
+  if (source.button && source.button !== 'left') options.button = source.button as MouseButton
+  if (typeof source.clickCount === 'number' && source.clickCount > 1) options.clickCount = source.clickCount
+  if (Array.isArray(source.modifiers) && source.modifiers.length > 0) options.modifiers = source.modifiers as KeyModifier[]
+  return options
+}
+
+function describeClick(options: ClickOptions): string {
+  if (options.clickCount) return 'ダブルクリック'
+  if (options.button === 'right') return '右クリック'
+  if (options.button === 'middle') return '中クリック'
+  return 'クリック'
+}
+
+function clickArgs(args: Record<string, unknown>): ClickOptions {
+  return clickOptions({ button: args.button, clickCount: args.double ? 2 : 1, modifiers: args.modifiers })
+}
+
+// page.mouse has no modifiers option, so hold the keys down around the click
+async function clickAt(page: Page, x: number, y: number, options: ClickOptions): Promise<void> {
+  const modifiers = options.modifiers ?? []
+  for (const modifier of modifiers) await page.keyboard.down(modifier)
+  try {
+    await page.mouse.click(x, y, { button: options.button, clickCount: options.clickCount })
+  } finally {
+    for (const modifier of [...modifiers].reverse()) await page.keyboard.up(modifier)
+  }
+}
+
+function scrollDelta(direction: string, amount: number): Pick<JournalEntry, 'deltaX' | 'deltaY' | 'edge'> {
+  switch (direction) {
+    case 'top':
+    case 'bottom':
+      return { edge: direction }
+    case 'up':
+      return { deltaY: -amount }
+    case 'left':
+      return { deltaX: -amount }
+    case 'right':
+      return { deltaX: amount }
+    default:
+      return { deltaY: amount }
+  }
+}
+
+// Scroll an element, or the page when none is given, and report where it ended up
+async function scroll(
+  page: Page,
+  locator: Locator | undefined,
+  delta: Pick<JournalEntry, 'deltaX' | 'deltaY' | 'edge'>
+): Promise<{ scroll_x: number; scroll_y: number; at_bottom: boolean }> {
+  const scrollElement = (element: Element, { deltaX, deltaY, edge }: typeof delta) => {
+    if (edge) {
+      element.scrollTo({ top: edge === 'top' ? 0 : element.scrollHeight })
+    } else {
+      element.scrollBy(deltaX ?? 0, deltaY ?? 0)
+    }
+    return {
+      scroll_x: Math.round(element.scrollLeft),
+      scroll_y: Math.round(element.scrollTop),
+      at_bottom: element.scrollTop + element.clientHeight >= element.scrollHeight - 1,
+    }
+  }
+  
+  if (locator) {
+    return await locator.evaluate(scrollElement, delta, { timeout: 10000 })
+  }
+  const root = await page.evaluateHandle(() => document.scrollingElement ?? document.documentElement)
+  try {
+    return await root.evaluate(scrollElement, delta)
+  } finally {
+    await root.dispose()
+  }
+}
+
+// Dialog handling
+const DEFAULT_DIALOG_POLICY: DialogPolicy = { action: 'dismiss' }
+
+// Dialogs shown during one tool run and the policy they are answered with
+interface DialogCapture {
+  policy: DialogPolicy
+  entries: DialogRecord[]
+}
+
+async function answerDialog(dialog: Dialog, policy: DialogPolicy): Promise<void> {
+  if (policy.action === 'accept') {
+    await dialog.accept(policy.promptText)
+  } else {
+    await dialog.dismiss()
+  }
+}
+
+function handleDialogs(page: Page, capture: DialogCapture): void {
+  page.on('dialog', dialog => {
+    const { policy } = capture
+    capture.entries.push({
+      type: dialog.type(),
+      message: dialog.message(),
+      ...(dialog.type() === 'prompt' ? { defaultValue: dialog.defaultValue() } : {}),
+      ...policy,
+    })
+    answerDialog(dialog, policy).catch(() => {})
+  })
+}
+
+function describeDialogs(records: DialogRecord[]): Array<Record<string, unknown>> {
+  return records.map(record => ({
+    type: record.type,
+    message: record.message,
+    ...(record.defaultValue !== undefined ? { default_value: record.defaultValue } : {}),
+    response: record.action === 'accept' ? 'accepted' : 'dismissed',
+    ...(record.action === 'accept' && record.promptText !== undefined ? { prompt_text: record.promptText } : {}),
+  }))
+}
+
+function parseDialogPolicy(args: Record<string, unknown>): DialogPolicy {
+  const action = args.action as string | undefined
+  if (action !== 'accept' && action !== 'dismiss') throw new Error('action must be "accept" or "dismiss"')
+  return args.prompt_text !== undefined && action === 'accept'
+    ? { action, promptText: args.prompt_text as string }
+    : { action }
+}
+
+// File transfer
+const MIME_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  txt: 'text/plain',
+  json: 'application/json',
+  xml: 'application/xml',
+  html: 'text/html',
+  pdf: 'application/pdf',
+  zip: 'application/zip',
+  xls: 'application/vnd.ms-excel',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  doc: 'application/msword',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml',
+}
+
+function guessMimeType(filename: string): string {
+  const extension = filename.split('.').pop()?.toLowerCase() ?? ''
+  return MIME_TYPES[extension] ?? 'application/octet-stream'
+}
+
+function parseUploadFiles(value: unknown): UploadFile[] {
+  if (!Array.isArray(value) || value.length === 0) throw new Error('files is required')
+  
+  let total = 0
+  const files = value.map((file, index) => {
+    const { name, content, mime_type } = (file ?? {}) as { name?: string; content?: string; mime_type?: string }
+    if (!name || typeof content !== 'string') throw new Error(`files[${index}] requires name and content`)
+    total += Buffer.byteLength(content, 'base64')
+    return { name, mimeType: mime_type ?? guessMimeType(name), data: content }
+  })
+  if (total > UPLOAD_MAX_BYTES) {
+    throw new Error(`Files total ${total} bytes, which exceeds the ${UPLOAD_MAX_BYTES}-byte upload limit`)
+  }
+  return files
+}
+
+function toFilePayloads(files: UploadFile[]): Array<{ name: string; mimeType: string; buffer: Buffer }> {
+  return files.map(file => ({ name: file.name, mimeType: file.mimeType, buffer: Buffer.from(file.data, 'base64') }))
+}
+
+// Take size bytes from the response's binary budget, or fail without taking any
+function spendBinaryBudget(state: StepState, size: number, what: string): void {
+  if (size > state.binaryBudget) {
+    throw new Error(`${what} is ${size} bytes, but only ${state.binaryBudget} of the ${RESPONSE_BINARY_MAX_BYTES}-byte response limit are left`)
+  }
+  state.binaryBudget -= size
+}
+
+// Wait for a download to finish and read it back, up to DOWNLOAD_MAX_BYTES and the response's binary budget
+async function readDownload(state: StepState, download: Download): Promise<Record<string, unknown>> {
+  const filename = download.suggestedFilename()
+  const info = { filename, mime_type: guessMimeType(filename), url: download.url() }
+  
+  const failure = await download.failure()
+  if (failure) return { ...info, error: `Download failed: ${failure}` }
+  
+  const stream = await download.createReadStream()
+  const chunks: Buffer[] = []
+  let size = 0
+  for await (const chunk of stream) {
+    size += chunk.length
+    if (size > DOWNLOAD_MAX_BYTES) {
+      stream.destroy()
+      return { ...info, error: `Download exceeds the ${DOWNLOAD_MAX_BYTES}-byte limit` }
+    }
+    chunks.push(chunk as Buffer)
+  }
+  try {
+    spendBinaryBudget(state, size, 'Download')
+  } catch (error) {
+    return { ...info, size, error: error instanceof Error ? error.message : String(error) }
+  }
+  return { ...info, size, content_base64: Buffer.concat(chunks).toString('base64') }
+}
+
+// Console capture
+const MAX_CONSOLE_ENTRIES = 200
+const MAX_CONSOLE_TEXT = 2000
+const CONSOLE_LEVELS = ['debug', 'info', 'warning', 'error']
+
+// Messages logged during one tool run; tool is updated as browser_run_steps moves through its steps
+interface ConsoleCapture {
+  tool: string
+  entries: ConsoleEntry[]
+}
+
+function consoleSeverity(level: string): number {
+  switch (level) {
+    case 'debug':
+      return 0
+    case 'warning':
+      return 2
+    case 'error':
+      return 3
+    default:
+      return 1
+  }
+}
+
+function captureConsole(page: Page, capture: ConsoleCapture): void {
+  page.on('console', message => {
+    const { url, lineNumber, columnNumber } = message.location()
+    capture.entries.push({
+      level: message.type(),
+      text: message.text().slice(0, MAX_CONSOLE_TEXT),
+      ...(url ? { location: `${url}:${lineNumber + 1}:${columnNumber + 1}` } : {}),
+      tool: capture.tool,
+      timestamp: new Date().toISOString(),
+    })
+  })
+  page.on('pageerror', error => {
+    capture.entries.push({
+      level: 'error',
+      text: (error.stack || error.message).slice(0, MAX_CONSOLE_TEXT),
+      tool: capture.tool,
+      timestamp: new Date().toISOString(),
+      uncaught: true,
+    })
+  })
+}
+
+// Errors reported alongside an action's result
+function consoleErrors(entries: ConsoleEntry[]): Array<{ text: string; location?: string }> {
+  return entries
+    .filter(entry => entry.level === 'error')
+    .map(({ text, location }) => ({ text: text.split('\n')[0], ...(location ? { location } : {}) }))
+}
+
+function parseNetworkCaptureConfig(args: Record<string, unknown>): NetworkCaptureConfig {
+  const maxBodySize = (args.max_body_size as number | undefined) ?? DEFAULT_MAX_BODY_SIZE
+  if (!Number.isInteger(maxBodySize) || maxBodySize < 0) {
+    throw new Error('max_body_size must be a non-negative integer')
+  }
+  const config: NetworkCaptureConfig = { maxBodySize }
+  if (args.url_filter) config.urlFilter = args.url_filter as string
+  if (Array.isArray(args.resource_types) && args.resource_types.length > 0) {
+    config.resourceTypes = args.resource_types as string[]
+  }
+  return config
+}
+
+type SessionCookie = BrowserSession['cookies'][number]
+
+// Playwright's storageState format, as written by context.storageState()
+interface StorageState {
+  cookies: SessionCookie[]
+  origins: Array<{ origin: string; localStorage: Array<{ name: string; value: string }> }>
+}
+
+const SAME_SITE_VALUES = ['Strict', 'Lax', 'None']
+
+// A domain filter matches the domain itself and its subdomains, with or without the leading dot
+function matchesCookie(cookie: SessionCookie, domain?: string, name?: string): boolean {
+  if (name && cookie.name !== name) return false
+  if (domain) {
+    const cookieDomain = cookie.domain.replace(/^\./, '').toLowerCase()
+    const wanted = domain.replace(/^\./, '').toLowerCase()
+    if (cookieDomain !== wanted && !cookieDomain.endsWith(`.${wanted}`)) return false
+  }
+  return true
+}
+
+// Accepts tool arguments (snake_case) and storageState cookies (camelCase); without a domain
+// the cookie is set for the URL given, or for the session's page
+function parseCookie(input: Record<string, unknown>, defaultUrl?: string): SessionCookie {
+  const name = input.name as string | undefined
+  if (!name || typeof name !== 'string') throw new Error('cookie name is required')
+  if (typeof input.value !== 'string') throw new Error(`cookie ${name}: value must be a string`)
+  
+  let domain = input.domain as string | undefined
+  let path = (input.path as string | undefined) ?? '/'
+  let secure = (input.secure as boolean | undefined)
+  const url = (input.url as string | undefined) ?? (domain ? undefined : defaultUrl)
+  if (!domain) {
+    if (!url) throw new Error(`cookie ${name}: domain or url is required`)
+    let parsed: URL
+    try {
+      parsed = new URL(url)
+    } catch {
+      throw new Error(`cookie ${name}: invalid url ${url}`)
+    }
+    domain = parsed.hostname
+    if (input.path === undefined) path = parsed.pathname.replace(/\/[^/]*$/, '') || '/'
+    secure ??= parsed.protocol === 'https:'
+  }
+  
+  const sameSite = (input.same_site ?? input.sameSite) as string | undefined
+  if (sameSite !== undefined && !SAME_SITE_VALUES.includes(sameSite)) {
+    throw new Error(`cookie ${name}: sameSite must be one of: ${SAME_SITE_VALUES.join(', ')}`)
+  }
+  const expires = input.expires as number | undefined
+  if (expires !== undefined && typeof expires !== 'number') {
+    throw new Error(`cookie ${name}: expires must be a Unix timestamp in seconds`)
+  }
+  const httpOnly = (input.http_only ?? input.httpOnly) as boolean | undefined
+  
+  return {
+    name,
+    value: input.value,
+    domain,
+    path,
+    // -1 marks a session cookie in storageState
+    ...(expires !== undefined && expires !== -1 ? { expires } : {}),
+    ...(httpOnly !== undefined ? { httpOnly } : {}),
+    ...(secure !== undefined ? { secure } : {}),
+    ...(sameSite ? { sameSite: sameSite as SessionCookie['sameSite'] } : {}),
+  }
+}
+
+// Later cookies replace earlier ones with the same name, domain and path
+function mergeCookies(cookies: SessionCookie[], updates: SessionCookie[]): SessionCookie[] {
+  const key = (cookie: SessionCookie) => `${cookie.name}\n${cookie.domain}\n${cookie.path}`
+  const replaced = new Set(updates.map(key))
+  return [...cookies.filter(cookie => !replaced.has(key(cookie))), ...updates]
+}
+
+function toStorageState(session: BrowserSession): StorageState {
+  return {
+    cookies: session.cookies.map(cookie => ({
+      ...cookie,
+      expires: cookie.expires ?? -1,
+      httpOnly: cookie.httpOnly ?? false,
+      secure: cookie.secure ?? false,
+      sameSite: cookie.sameSite ?? 'Lax',
+    })),
+    origins: Object.entries(session.localStorage ?? {})
+      .filter(([, items]) => Object.keys(items).length > 0)
+      .map(([origin, items]) => ({ origin, localStorage: Object.entries(items).map(([name, value]) => ({ name, value })) })),
+  }
+}
+
+function parseStorageState(input: unknown): { cookies: SessionCookie[]; localStorage: BrowserSession['localStorage'] } {
+  let state = input
+  if (typeof state === 'string') {
+    try {
+      state = JSON.parse(state)
+    } catch {
+      throw new Error('storage_state must be a storageState object or its JSON')
+    }
+  }
+  const { cookies, origins } = (state ?? {}) as { cookies?: unknown; origins?: unknown }
+  if (!Array.isArray(cookies ?? []) || !Array.isArray(origins ?? [])) {
+    throw new Error('storage_state must have cookies and origins arrays')
+  }
+  
+  const localStorage: BrowserSession['localStorage'] = {}
+  for (const entry of (origins ?? []) as Array<{ origin?: string; localStorage?: Array<{ name: string; value: string }> }>) {
+    const origin = entry.origin ? storageOrigin(entry.origin) : undefined
+    if (!origin) throw new Error(`storage_state origin ${JSON.stringify(entry.origin)} is not a valid origin`)
+    localStorage[origin] = { ...localStorage[origin] }
+    for (const item of entry.localStorage ?? []) {
+      localStorage[origin][item.name] = String(item.value)
+    }
+  }
+  return {
+    cookies: ((cookies ?? []) as Record<string, unknown>[]).map(cookie => parseCookie(cookie)),
+    localStorage,
+  }
+}
+
+// Apply a change to the live browser of a persistent session, keeping it alive for the next call.
+// If the browser is gone the next call restores from the stored session, which already has the change
+async function updateRemoteContext(session: BrowserSession, update: (context: BrowserContext) => Promise<void>): Promise<void> {
+  if (!session.persistent || !session.remote) return
+  const attached = await attachRemotePage(session.remote)
+  if (!attached) return
+  try {
+    await update(attached.context)
+    session.remote = await keepRemoteAlive(attached.page)
+  } finally {
+    await attached.browser.close().catch(() => {})
+  }
+}
+
+async function extractSessionData(
+  context: BrowserContext, 
+  page: Page, 
+  sessionId: string, 
+  refs?: Record<string, ElementRef>,
+  httpCredentials?: { username: string; password: string },
+  journal?: JournalEntry[]
+): Promise<BrowserSession> {
+  const cookies = await context.cookies()
+  const url = page.url()
+  
+  let storage: Record<string, string> = {}
+  try {
+    storage = await page.evaluate(() => {
+      const storage: Record<string, string> = {}
+      for (let i = 0; i < window.localStorage.length; i++) {
+        const key = window.localStorage.key(i)
+        if (key) {
+          storage[key] = window.localStorage.getItem(key) || ''
+        }
+      }
+      return storage
+    })
+  } catch {
+    // localStorage might not be available on some pages
+  }
+  const origin = storageOrigin(url)
+  
+  return {
+    id: sessionId,
+    url,
+    cookies: cookies.map(c => ({
+      name: c.name,
+      value: c.value,
+      domain: c.domain,
+      path: c.path,
+      expires: c.expires,
+      httpOnly: c.httpOnly,
+      secure: c.secure,
+      sameSite: c.sameSite as 'Strict' | 'Lax' | 'None' | undefined,
+    })),
+    localStorage: origin && Object.keys(storage).length > 0 ? { [origin]: storage } : {},
+    refs,
+    httpCredentials,
+    journal,
+    createdAt: Date.now(),
+    updatedAt: Date.now(),
+  }
+}
+
+// Accessibility snapshot helper
+const REF_ROLES = [
+  'button', 'link', 'textbox', 'checkbox', 'radio', 'combobox', 'menuitem', 'tab',
+  'option', 'switch', 'slider', 'cell', 'heading', 'img', 'spinbutton',
+]
+
+// Node of page.accessibility.snapshot() output, or of an aria snapshot parsed into the same shape
+interface SnapshotNode {
+  role: string
+  name: string
+  children?: SnapshotNode[]
+  value?: string | number
+  valuetext?: string
+  checked?: boolean | 'mixed'
+  pressed?: boolean | 'mixed'
+  disabled?: boolean
+  expanded?: boolean
+  selected?: boolean
+  required?: boolean
+  level?: number
+}
+
+// Accessibility tree of one frame and where its lines go in the snapshot text
+interface SnapshotSection {
+  tree: SnapshotNode | null
+  // iframe chain of a child frame, and the label its refs are prefixed with
+  frame?: string[]
+  label?: string
+  depth: number
+}
+
+// Element states shown next to a node, e.g. [checked] [disabled] [value="Tokyo"]
+function describeStates(node: SnapshotNode): string {
+  const states: string[] = []
+  if (node.checked !== undefined) {
+    states.push(node.checked === 'mixed' ? 'checked=mixed' : node.checked ? 'checked' : 'unchecked')
+  }
+  if (node.pressed !== undefined) {
+    states.push(node.pressed === 'mixed' ? 'pressed=mixed' : node.pressed ? 'pressed' : 'not pressed')
+  }
+  if (node.disabled) states.push('disabled')
+  if (node.expanded !== undefined) states.push(node.expanded ? 'expanded' : 'collapsed')
+  if (node.selected) states.push('selected')
+  if (node.required) states.push('required')
+  if (node.level !== undefined) states.push(`level=${node.level}`)
+  const value = node.valuetext || node.value
+  if (value !== undefined && value !== '' && value !== node.name) {
+    states.push(`value=${JSON.stringify(String(value))}`)
+  }
+  return states.map(state => ` [${state}]`).join('')
+}
+
+// Role selector with an exact, case-sensitive name match
+function roleSelector(role: string, name: string): string {
+  if (name) {
+    return `role=${role}[name="${name.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"s]`
+  }
+  return `role=${role}`
+}
+
+// Whether a snapshot node is matched by roleSelector(role, name)
+function matchesRoleSelector(node: SnapshotNode, role: string, name: string): boolean {
+  return node.role === role && (!name || node.name === name)
+}
+
+// Locator for a selector inside the iframe chain a ref was taken in
+function locateInFrames(page: Page, selector: string, frame?: string[]): Locator {
+  let scope: Page | FrameLocator = page
+  for (const frameSelector of frame ?? []) {
+    scope = scope.frameLocator(frameSelector)
+  }
+  return scope.locator(selector)
+}
+
+// Parse Playwright's aria snapshot YAML into nodes shaped like accessibility.snapshot() output
+function parseAriaSnapshot(yaml: string): SnapshotNode[] {
+  type ParsedNode = SnapshotNode & { children: SnapshotNode[] }
+  const root: ParsedNode = { role: 'root', name: '', children: [] }
+  const stack: Array<{ indent: number; node: ParsedNode }> = [{ indent: -1, node: root }]
+  const unquote = (text: string) => {
+    try {
+      return JSON.parse(text)
+    } catch {
+      return text.replace(/^"|"$/g, '')
+    }
+  }
+  
+  for (const rawLine of yaml.split('\n')) {
+    const lineMatch = rawLine.match(/^(\s*)- (.*)$/)
+    if (!lineMatch) continue
+    const indent = lineMatch[1].length
+    let rest = lineMatch[2]
+    
+    // Keys containing YAML special characters are wrapped in single quotes
+    let key: string
+    let value: string | undefined
+    if (rest.startsWith("'")) {
+      let end = 1
+      while (end < rest.length && (rest[end] !== "'" || rest[end + 1] === "'")) {
+        end += rest[end] === "'" ? 2 : 1
+      }
+      key = rest.slice(1, end).replace(/''/g, "'")
+      rest = rest.slice(end + 1)
+      value = rest.startsWith(': ') ? rest.slice(2) : undefined
+    } else {
+      const keyMatch = rest.match(/^((?:[^":]|"(?:[^"\\]|\\.)*")*)(?::(?: (.*))?)?$/)
+      key = keyMatch?.[1] ?? rest
+      value = keyMatch?.[2]
+    }
+    
+    const nodeMatch = key.match(/^(\/?[\w-]+)(?: ("(?:[^"\\]|\\.)*"))?((?: \[[^\]]*\])*)$/)
+    if (!nodeMatch) continue
+    const [, role, quotedName, attributes] = nodeMatch
+    
+    while (stack[stack.length - 1].indent >= indent) stack.pop()
+    const parent = stack[stack.length - 1].node
+    
+    // Properties such as "/url: ..." describe the parent rather than a child node
+    if (role.startsWith('/')) continue
+    
+    const node: ParsedNode = { role, name: quotedName ? unquote(quotedName) : '', children: [] }
+    if (role === 'text') {
+      node.name = value !== undefined ? unquote(value) : node.name
+    } else if (value !== undefined) {
+      if (['textbox', 'combobox', 'searchbox', 'spinbutton', 'slider'].includes(role)) {
+        node.value = unquote(value)
+      } else {
+        node.children.push({ role: 'text', name: unquote(value), children: [] })
+      }
+    }
+    
+    for (const [, attribute, attributeValue] of attributes.matchAll(/\[([\w-]+)(?:=([^\]]*))?\]/g)) {
+      const flag = attributeValue === undefined || attributeValue === 'true'
+        ? true
+        : attributeValue === 'mixed' ? 'mixed' : false
+      switch (attribute) {
+        case 'checked':
+        case 'pressed':
+          node[attribute] = flag
+          break
+        case 'disabled':
+        case 'expanded':
+        case 'selected':
+          node[attribute] = flag === true
+          break
+        case 'level':
+          node.level = Number(attributeValue)
+          break
+      }
+    }
+    
+    parent.children.push(node)
+    stack.push({ indent, node })
+  }
+  
+  return root.children
+}
+
+// Accessibility trees of child frames; Chromium's main-frame tree stops at iframe boundaries
+async function getFrameSections(page: Page): Promise<SnapshotSection[]> {
+  const sections: SnapshotSection[] = []
+  
+  async function visit(frame: Frame, path: string[], depth: number): Promise<void> {
+    for (const child of frame.childFrames()) {
+      try {
+        const element = await child.frameElement()
+        // Identify the iframe within its parent frame, preferring id and name over position
+        const frameSelector = await element.evaluate((node) => {
+          const el = node as Element
+          if (el.id) return `#${CSS.escape(el.id)}`
+          const name = el.getAttribute('name')
+          if (name) return `${el.localName}[name="${CSS.escape(name)}"]`
+          const index = [...el.ownerDocument.querySelectorAll('iframe, frame')].indexOf(el)
+          return `:is(iframe, frame) >> nth=${index}`
+        })
+        const childPath = [...path, frameSelector]
+        const yaml = await child.locator('body').ariaSnapshot({ timeout: 5000 })
+        sections.push({
+          tree: { role: 'iframe', name: child.name() || child.url(), children: parseAriaSnapshot(yaml) },
+          frame: childPath,
+          label: `f${sections.length + 1}`,
+          depth,
+        })
+        await visit(child, childPath, depth + 1)
+      } catch (error) {
+        // Frames that detach or never load are left out of the snapshot
+        console.log('Skipping frame in snapshot:', error instanceof Error ? error.message : error)
+      }
+    }
+  }
+  
+  await visit(page.mainFrame(), [], 1)
+  return sections
+}
+
+async function getAccessibilitySnapshot(
+  page: Page,
+  previousRefs?: Record<string, ElementRef>,
+  options: { rootSelector?: string; maxDepth?: number } = {}
+): Promise<{ snapshot: string; refs: Record<string, ElementRef> }> {
+  const { rootSelector, maxDepth } = options
+  const root = rootSelector
+    ? await page.locator(rootSelector).elementHandle({ timeout: 10000 })
+    : undefined
+  const snapshot = await page.accessibility.snapshot({ interestingOnly: true, root: root ?? undefined })
+  
+  // The main frame first, then each child frame (including cross-origin ones) as its own section
+  const sections: SnapshotSection[] = [{ tree: snapshot, depth: 0 }]
+  if (!rootSelector) {
+    sections.push(...await getFrameSections(page))
+  }
+  
+  const refs: Record<string, ElementRef> = {}
+  const lines: Array<{ text: string; refNode?: SnapshotNode }> = []
+  const refNodes: Array<{ node: SnapshotNode; ancestors: SnapshotNode[]; section: SnapshotSection }> = []
+  // Selectors of a scoped snapshot are resolved inside the scope element
+  const prefix = rootSelector ? `${rootSelector} >> ` : ''
+  
+  function processNode(node: SnapshotNode | null, section: SnapshotSection, path: SnapshotNode[] = []): void {
+    if (!node) return
+    
+    const indent = '  '.repeat(section.depth + path.length)
+    const role = node.role || 'unknown'
+    const name = node.name || ''
+    
+    let line = `${indent}- ${role}`
+    if (name) line += ` "${name}"`
+    line += describeStates(node)
+    if (section.label && path.length === 0) line += ` [frame=${section.label}]`
+    
+    // Interactive elements get a ref once their selectors are known; a scope root keeps the ref it was given
+    if (REF_ROLES.includes(role) && !(rootSelector && path.length === 0)) {
+      refNodes.push({ node, ancestors: path, section })
+      lines.push({ text: line, refNode: node })
+    } else {
+      lines.push({ text: line })
+    }
+    
+    if (node.children?.length) {
+      if (maxDepth !== undefined && path.length >= maxDepth) {
+        lines.push({ text: `${indent}  - ... (${node.children.length} more)` })
+        return
+      }
+      for (const child of node.children) {
+        processNode(child, section, [...path, node])
+      }
+    }
+  }
+  
+  for (const section of sections) {
+    processNode(section.tree, section)
+  }
+  
+  // Each selector is checked against the DOM once; counts are shared between refs
+  const domCounts = new Map<string, number>()
+  async function countInDom(selector: string, frame?: string[]): Promise<number> {
+    const key = `${(frame ?? []).join(' >>> ')}|${selector}`
+    if (!domCounts.has(key)) {
+      domCounts.set(key, await locateInFrames(page, selector, frame).count())
+    }
+    return domCounts.get(key)!
+  }
+  
+  // Position of node among the matches of its role selector within scope, and the match count
+  function indexWithin(scope: SnapshotNode, target: SnapshotNode): { index: number; total: number } {
+    const role = target.role
+    const name = target.name || ''
+    let index = -1
+    let total = 0
+    const visit = (node: SnapshotNode) => {
+      if (node !== scope && matchesRoleSelector(node, role, name)) {
+        if (node === target) index = total
+        total++
+      }
+      for (const child of node.children ?? []) visit(child)
+    }
+    visit(scope)
+    return { index, total }
+  }
+  
+  const withNth = (selector: string, index: number, total: number) =>
+    total > 1 ? `${selector} >> nth=${index}` : selector
+  const refKey = (selector: string, frame?: string[]) => [...(frame ?? []), selector].join(' >>> ')
+  
+  // Elements whose selector is unchanged keep the ref ID from the previous snapshot of this page
+  const previousIds = new Map(Object.entries(previousRefs ?? {}).map(([id, r]) => [refKey(r.selector, r.frame), id]))
+  let nextId = Math.max(0, ...Object.keys(previousRefs ?? {}).map(id => Number(id.match(/\d+$/)?.[0]) || 0)) + 1
+  const refIds = new Map<SnapshotNode, string>()
+  
+  for (const { node, ancestors, section } of refNodes) {
+    const role = node.role
+    const name = node.name || ''
+    const base = roleSelector(role, name)
+    const sectionPrefix = section.frame ? '' : prefix
+    
+    // Duplicates are told apart by their order on the page
+    // A section with ref nodes has a tree
+    const global = indexWithin(section.tree!, node)
+    let selector = withNth(sectionPrefix + base, global.index, global.total)
+    
+    // When the DOM disagrees with the accessibility tree, scope to the nearest named ancestor
+    if (await countInDom(sectionPrefix + base, section.frame) !== global.total) {
+      for (const ancestor of [...ancestors].reverse()) {
+        if (!ancestor.name || ancestor === section.tree) continue
+        const scopeSelector = sectionPrefix + roleSelector(ancestor.role, ancestor.name)
+        if (await countInDom(scopeSelector, section.frame) !== 1) continue
+        const scoped = indexWithin(ancestor, node)
+        if (await countInDom(`${scopeSelector} >> ${base}`, section.frame) === scoped.total) {
+          selector = withNth(`${scopeSelector} >> ${base}`, scoped.index, scoped.total)
+          break
+        }
+      }
+    }
+    
+    // Refs inside frames carry the frame label so agents can tell them apart
+    const key = refKey(selector, section.frame)
+    const refId = previousIds.get(key) ?? `${section.label ?? ''}e${nextId++}`
+    previousIds.delete(key)
+    refIds.set(node, refId)
+    refs[refId] = section.frame ? { role, name, selector, frame: section.frame } : { role, name, selector }
+  }
+  
+  const snapshotText = lines
+    .map(line => line.refNode ? `${line.text} [ref=${refIds.get(line.refNode)}]` : line.text)
+    .join('\n')
+  return { snapshot: snapshotText, refs }
+}
+
+// Compare two snapshot texts: ref lines are matched by ref ID, other lines by content
+function diffSnapshots(previous: string, current: string): { added: string[]; removed: string[]; changed: Array<{ before: string; after: string }> } {
+  const refPattern = /\[ref=(\w+)\]/
+  const parse = (text: string) => {
+    const byRef = new Map<string, string>()
+    const plain = new Map<string, number>()
+    const order: string[] = []
+    for (const rawLine of text.split('\n')) {
+      const line = rawLine.trim().replace(/^- /, '')
+      if (!line) continue
+      const refId = line.match(refPattern)?.[1]
+      if (refId) {
+        byRef.set(refId, line)
+      } else {
+        plain.set(line, (plain.get(line) ?? 0) + 1)
+      }
+      order.push(line)
+    }
+    return { byRef, plain, order }
+  }
+  
+  const before = parse(previous)
+  const after = parse(current)
+  const added: string[] = []
+  const removed: string[] = []
+  const changed: Array<{ before: string; after: string }> = []
+  
+  const plainBudget = new Map(before.plain)
+  for (const line of after.order) {
+    const refId = line.match(refPattern)?.[1]
+    if (refId) {
+      const previousLine = before.byRef.get(refId)
+      if (previousLine === undefined) added.push(line)
+      else if (previousLine !== line) changed.push({ before: previousLine, after: line })
+    } else if ((plainBudget.get(line) ?? 0) > 0) {
+      plainBudget.set(line, plainBudget.get(line)! - 1)
+    } else {
+      added.push(line)
+    }
+  }
+  
+  const currentBudget = new Map(after.plain)
+  for (const line of before.order) {
+    const refId = line.match(refPattern)?.[1]
+    if (refId) {
+      if (!after.byRef.has(refId)) removed.push(line)
+    } else if ((currentBudget.get(line) ?? 0) > 0) {
+      currentBudget.set(line, currentBudget.get(line)! - 1)
+    } else {
+      removed.push(line)
+    }
+  }
+  
+  return { added, removed, changed }
+}
+
+// Step execution shared by the single-action tools and browser_run_steps
+const STEP_ACTIONS = [
+  'open', 'navigate', 'back', 'forward', 'reload',
+  'click', 'fill', 'type', 'press_key', 'upload_file', 'wait', 'get_text', 'snapshot', 'screenshot',
+  'hover', 'select_option', 'check', 'uncheck', 'drag', 'scroll', 'click_at', 'evaluate', 'pdf', 'extract',
+  'get_form', 'fill_form',
+]
+const PDF_FORMATS = ['Letter', 'Legal', 'Tabloid', 'Ledger', 'A0', 'A1', 'A2', 'A3', 'A4', 'A5', 'A6']
+const NAVIGATION_ACTIONS = ['navigate', 'back', 'forward', 'reload']
+const WAIT_UNTIL_STATES = ['load', 'domcontentloaded', 'networkidle', 'commit']
+
+type WaitUntil = 'load' | 'domcontentloaded' | 'networkidle' | 'commit'
+
+// State carried across the steps of one browser lifetime
+interface StepState {
+  session: BrowserSession | null
+  refs?: Record<string, ElementRef>
+  refsUrl?: string
+  lastSnapshot?: string
+  journal: JournalEntry[]
+  history: NavigationHistory
+  tabs: BrowserTab[]
+  activeTabId: string
+  collectNetwork?: () => Promise<NetworkEntry[]>
+  console: ConsoleCapture
+  dialogs: DialogCapture
+  // Bytes of binary output the response can still carry
+  binaryBudget: number
+}
+
+interface StepOutcome {
+  result: Record<string, unknown>
+  image?: { data: string; mimeType: string }
+  // Binary output returned as an embedded MCP resource
+  resource?: { uri: string; mimeType: string; blob: string }
+}
+
+function createStepState(session: BrowserSession | null, page: Page, tool: string): StepState {
+  const capture: ConsoleCapture = { tool, entries: [] }
+  captureConsole(page, capture)
+  const dialogs: DialogCapture = { policy: session?.nextDialog ?? session?.dialogPolicy ?? DEFAULT_DIALOG_POLICY, entries: [] }
+  handleDialogs(page, dialogs)
+  
+  return {
+    session,
+    refs: session?.refs,
+    refsUrl: session?.refsUrl,
+    lastSnapshot: session?.lastSnapshot,
+    // The stored journal only applies if setupPage restored the page it was recorded on
+    journal: session?.journal && session.url === page.url() ? session.journal : [],
+    history: page.url() === 'about:blank'
+      ? session?.history ?? { entries: [], index: -1 }
+      : pushHistory(session?.history ?? { entries: [], index: -1 }, page.url()),
+    tabs: session?.tabs ? [...session.tabs] : [{ id: 't1', url: page.url(), title: '' }],
+    activeTabId: session?.activeTabId ?? 't1',
+    // Traffic is recorded from here on, after the page has been restored
+    collectNetwork: session?.networkCapture ? captureNetwork(page, session.networkCapture) : undefined,
+    console: capture,
+    dialogs,
+    binaryBudget: RESPONSE_BINARY_MAX_BYTES,
+  }
+}
+
+// Check step arguments before a browser is launched
+function validateStep(action: string, args: Record<string, unknown>): void {
+  const requireTarget = () => {
+    if (!args.ref && !args.selector) throw new Error('ref or selector is required')
+  }
+  const checkClickArgs = () => {
+    if (args.button !== undefined && !MOUSE_BUTTONS.includes(args.button as string)) {
+      throw new Error(`button must be one of: ${MOUSE_BUTTONS.join(', ')}`)
+    }
+    const modifiers = (args.modifiers ?? []) as string[]
+    if (!Array.isArray(modifiers) || modifiers.some(modifier => !KEY_MODIFIERS.includes(modifier))) {
+      throw new Error(`modifiers must be a list of: ${KEY_MODIFIERS.join(', ')}`)
+    }
+  }
+  
+  if (args.wait_until !== undefined && !WAIT_UNTIL_STATES.includes(args.wait_until as string)) {
+    throw new Error(`wait_until must be one of: ${WAIT_UNTIL_STATES.join(', ')}`)
+  }
+  
+  switch (action) {
+    case 'open':
+    case 'navigate':
+      if (!args.url) throw new Error('url is required')
+      break
+    case 'back':
+    case 'forward':
+    case 'reload':
+      break
+    case 'click':
+      checkClickArgs()
+      requireTarget()
+      break
+    case 'click_at':
+      if (typeof args.x !== 'number' || typeof args.y !== 'number') throw new Error('x and y are required')
+      checkClickArgs()
+      break
+    case 'get_text':
+    case 'hover':
+    case 'check':
+    case 'uncheck':
+      requireTarget()
+      break
+    case 'select_option':
+      if (!(args.values as string[] | undefined)?.length && !(args.labels as string[] | undefined)?.length) {
+        throw new Error('values or labels is required')
+      }
+      requireTarget()
+      break
+    case 'drag':
+      requireTarget()
+      if (!args.target_ref && !args.target_selector) throw new Error('target_ref or target_selector is required')
+      break
+    case 'get_form':
+      break
+    case 'fill_form': {
+      const fields = args.fields as Record<string, unknown> | undefined
+      if (!fields || typeof fields !== 'object' || Array.isArray(fields) || Object.keys(fields).length === 0) {
+        throw new Error('fields is required')
+      }
+      break
+    }
+    case 'extract':
+      if (args.mode !== undefined && !EXTRACT_MODES.includes(args.mode as string)) {
+        throw new Error(`mode must be one of: ${EXTRACT_MODES.join(', ')}`)
+      }
+      if (args.max_length !== undefined && !((args.max_length as number) > 0)) throw new Error('max_length must be a positive number')
+      if (args.cursor !== undefined && !(Number.isInteger(args.cursor) && (args.cursor as number) >= 0)) {
+        throw new Error('cursor must be a non-negative integer')
+      }
+      break
+    case 'pdf':
+      if (args.format !== undefined && !PDF_FORMATS.includes(args.format as string)) {
+        throw new Error(`format must be one of: ${PDF_FORMATS.join(', ')}`)
+      }
+      if (args.output !== undefined && args.output !== 'resource' && args.output !== 'base64') {
+        throw new Error('output must be "resource" or "base64"')
+      }
+      break
+    case 'evaluate':
+      if (!args.expression === !args.function_body) throw new Error('Exactly one of expression or function_body is required')
+      break
+    case 'scroll':
+      if (args.direction !== undefined && !SCROLL_DIRECTIONS.includes(args.direction as string)) {
+        throw new Error(`direction must be one of: ${SCROLL_DIRECTIONS.join(', ')}`)
+      }
+      if (args.amount !== undefined && !((args.amount as number) > 0)) throw new Error('amount must be a positive number')
+      break
+    case 'fill':
+      if (!args.value) throw new Error('value is required')
+      requireTarget()
+      break
+    case 'type':
+      if (!args.text) throw new Error('text is required')
+      requireTarget()
+      break
+    case 'press_key':
+      if (!args.key) throw new Error('key is required')
+      break
+    case 'upload_file':
+      parseUploadFiles(args.files)
+      requireTarget()
+      break
+    case 'wait':
+      if (!args.time && !args.text && !args.selector) throw new Error('time, text, or selector is required')
+      break
+    case 'snapshot':
+      break
+    case 'screenshot': {
+      if (args.format !== undefined && args.format !== 'png' && args.format !== 'jpeg') {
+        throw new Error('format must be "png" or "jpeg"')
+      }
+      if (args.quality !== undefined) {
+        if (args.format === 'png') throw new Error('quality is only supported for jpeg')
+        const quality = args.quality as number
+        if (!Number.isInteger(quality) || quality < 0 || quality > 100) throw new Error('quality must be an integer from 0 to 100')
+      }
+      const clip = args.clip as Record<string, unknown> | undefined
+      if (clip !== undefined) {
+        if (['x', 'y', 'width', 'height'].some(key => typeof clip?.[key] !== 'number')) {
+          throw new Error('clip requires numeric x, y, width, and height')
+        }
+        if (args.ref || args.selector) throw new Error('clip cannot be combined with ref or selector')
+      }
+      break
+    }
+    default:
+      throw new Error(`Unknown action: ${action}`)
+  }
+}
+
+// Element an action targets: a ref from the snapshot (possibly inside iframes) or a CSS selector
+async function resolveTarget(page: Page, state: StepState, ref?: string, selector?: string): Promise<{ selector: string; frame?: string[] }> {
+  if (!ref) {
+    if (!selector) throw new Error('Could not resolve selector')
+    return { selector }
+  }
+  
+  const refKey = ref.startsWith('@') ? ref.slice(1) : ref
+  const refData = state.refs?.[refKey]
+  if (!refData) {
+    throw new Error(`Unknown ref "${ref}": it is not in the latest snapshot. Call browser_snapshot to get current refs`)
+  }
+  
+  const staleRef = (reason: string) =>
+    new Error(`Stale ref "${ref}" (${refData.role} "${refData.name}"): ${reason}. Call browser_snapshot again to get current refs`)
+  
+  if (state.refsUrl !== page.url()) {
+    throw staleRef(`the page has navigated from ${state.refsUrl} to ${page.url()} since the snapshot`)
+  }
+  
+  const count = await locateInFrames(page, refData.selector, refData.frame).count()
+  if (count === 0) throw staleRef('the element is no longer on the page')
+  if (count > 1) throw staleRef(`it now matches ${count} elements`)
+  
+  return refData.frame ? { selector: refData.selector, frame: refData.frame } : { selector: refData.selector }
+}
+
+async function runStep(page: Page, state: StepState, action: string, args: Record<string, unknown>): Promise<StepOutcome> {
+  const startUrl = page.url()
+  const consoleStart = state.console.entries.length
+  const dialogStart = state.dialogs.entries.length
+  
+  // Pages opened during the step (target=_blank links, window.open popups) become tabs
+  const popups: Page[] = []
+  const onPage = (popup: Page) => {
+    popups.push(popup)
+  }
+  page.context().on('page', onPage)
+  const downloads: Download[] = []
+  const onDownload = (download: Download) => {
+    downloads.push(download)
+  }
+  page.on('download', onDownload)
+  
+  let performed: { outcome: StepOutcome; entries: JournalEntry[] }
+  try {
+    performed = await performStep(page, state, action, args)
+  } finally {
+    page.context().off('page', onPage)
+    page.off('download', onDownload)
+  }
+  
+  const { outcome, entries } = performed
+  // Dialogs and popups are attributed to the last action of the step
+  const entry = entries[entries.length - 1]
+  const dialogs = state.dialogs.entries.slice(dialogStart)
+  if (dialogs.length > 0) {
+    if (entry) entry.dialogs = dialogs.map(({ action, promptText }) => promptText !== undefined ? { action, promptText } : { action })
+    outcome.result.dialogs = describeDialogs(dialogs)
+  }
+  if (popups.length > 0) {
+    // The popup is tracked as its own tab, so replaying the action must not open it again
+    if (entry) entry.popup = true
+    outcome.result.popups = await trackPopups(state, popups)
+  }
+  if (downloads.length > 0) {
+    // Read one at a time so the budget goes to the downloads in the order they started
+    const read: Array<Record<string, unknown>> = []
+    for (const download of downloads) read.push(await readDownload(state, download))
+    outcome.result.downloads = read
+  }
+  
+  state.journal = nextJournal(state.journal, startUrl, page.url(), entries)
+  // back and forward move within the history themselves
+  if (action !== 'back' && action !== 'forward' && page.url() !== startUrl) {
+    state.history = pushHistory(state.history, page.url())
+  }
+  if (NAVIGATION_ACTIONS.includes(action)) {
+    outcome.result.can_go_back = state.history.index > 0
+    outcome.result.can_go_forward = state.history.index < state.history.entries.length - 1
+  }
+  
+  const errors = consoleErrors(state.console.entries.slice(consoleStart))
+  if (errors.length > 0) {
+    outcome.result.console_errors = errors
+  }
+  return outcome
+}
+
+async function trackPopups(state: StepState, popups: Page[]): Promise<Array<{ tab_id: string; url: string; title: string }>> {
+  const opened: Array<{ tab_id: string; url: string; title: string }> = []
+  for (const popup of popups) {
+    await popup.waitForLoadState('domcontentloaded', { timeout: 10000 }).catch(() => {})
+    const tab: BrowserTab = {
+      id: nextTabId(state.tabs),
+      url: popup.url(),
+      title: await popup.title().catch(() => ''),
+    }
+    if (state.session?.persistent) {
+      tab.targetId = await getTargetId(popup).catch(() => undefined)
+    }
+    state.tabs.push(tab)
+    opened.push({ tab_id: tab.id, url: tab.url, title: tab.title })
+  }
+  return opened
+}
+
+async function performStep(
+  page: Page,
+  state: StepState,
+  action: string,
+  args: Record<string, unknown>
+): Promise<{ outcome: StepOutcome; entries: JournalEntry[] }> {
+  const ref = args.ref as string | undefined
+  const selector = args.selector as string | undefined
+  let entry: JournalEntry | undefined
+  // Actions that perform several state changes record each of them
+  let entries: JournalEntry[] | undefined
+  let outcome: StepOutcome
+  
+  switch (action) {
+    case 'open': {
+      const url = args.url as string
+      await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 })
+      state.journal = []
+      outcome = { result: { url: page.url(), title: await page.title() } }
+      break
+    }
+    
+    case 'navigate':
+    case 'back':
+    case 'forward':
+    case 'reload': {
+      const waitUntil = (args.wait_until as WaitUntil | undefined) ?? 'networkidle'
+      if (action === 'reload') {
+        await page.reload({ waitUntil, timeout: 30000 })
+      } else if (action === 'navigate') {
+        await page.goto(args.url as string, { waitUntil, timeout: 30000 })
+      } else {
+        const index = historyIndex(state.history, action === 'back' ? -1 : 1)
+        await page.goto(state.history.entries[index], { waitUntil, timeout: 30000 })
+        // Keep the entry in line with where the page ended up after redirects
+        const entries = state.history.entries.map((url, i) => i === index ? page.url() : url)
+        state.history = { entries, index }
+      }
+      // The page was loaded afresh, so nothing recorded before still applies
+      state.journal = []
+      outcome = { result: { url: page.url(), title: await page.title() } }
+      break
+    }
+    
+    case 'snapshot': {
+      const samePage = state.refsUrl === page.url()
+      const maxDepth = args.max_depth as number | undefined
+      const scope = ref || selector ? await resolveTarget(page, state, ref, selector) : undefined
+      if (scope?.frame) {
+        throw new Error('Scoped snapshots of elements inside iframes are not supported; take a full snapshot to see frame contents')
+      }
+      const rootSelector = scope?.selector
+      // Partial snapshots add refs but are not a baseline for diffs
+      const partial = !!rootSelector || maxDepth !== undefined
+      const previousSnapshot = samePage && !partial ? state.lastSnapshot : undefined
+      const { snapshot, refs: snapshotRefs } = await getAccessibilitySnapshot(
+        page,
+        samePage ? state.refs : undefined,
+        { rootSelector, maxDepth }
+      )
+      const refs = partial && samePage ? { ...state.refs, ...snapshotRefs } : snapshotRefs
+      state.refs = refs
+      state.refsUrl = page.url()
+      if (!partial) {
+        state.lastSnapshot = snapshot
+      }
+      
+      const refSummary = (ids: string[]) => Object.fromEntries(
+        ids.map(id => [id, { role: refs[id].role, name: refs[id].name }])
+      )
+      
+      let fallbackReason: string | undefined
+      if (args.diff) {
+        if (partial) {
+          fallbackReason = 'diff is only available for full-page snapshots'
+        } else if (!previousSnapshot) {
+          fallbackReason = samePage ? 'no previous snapshot' : 'url changed since the previous snapshot'
+        } else {
+          const { added, removed, changed } = diffSnapshots(previousSnapshot, snapshot)
+          const diff = [
+            ...added.map(line => `+ ${line}`),
+            ...removed.map(line => `- ${line}`),
+            ...changed.map(c => `~ ${c.after} (was: ${c.before})`),
+          ].join('\n')
+          
+          if (diff.length < snapshot.length) {
+            const touchedRefs = [...added, ...changed.map(c => c.after)]
+              .map(line => line.match(/\[ref=(\w+)\]/)?.[1])
+              .filter((id): id is string => !!id)
+            outcome = {
+              result: {
+                url: page.url(),
+                mode: 'diff',
+                diff: diff || '(変更なし)',
+                added: added.length,
+                removed: removed.length,
+                changed: changed.length,
+                refs: refSummary(touchedRefs),
+              },
+            }
+            break
+          }
+          fallbackReason = 'diff is larger than the full snapshot'
+        }
+      }
+      
+      outcome = {
+        result: {
+          url: page.url(),
+          ...(args.diff ? { mode: 'full', fallback_reason: fallbackReason } : {}),
+          snapshot,
+          refs: refSummary(Object.keys(snapshotRefs)),
+        },
+      }
+      break
+    }
+    
+    case 'click': {
+      const options = clickArgs(args)
+      const target = await resolveTarget(page, state, ref, selector)
+      await locateInFrames(page, target.selector, target.frame).click({ ...options, timeout: 10000 })
+      await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {})
+      entry = { action: 'click', ...target, ...options }
+      outcome = { result: { url: page.url(), message: `${describeClick(options)}しました: ${ref || selector}` } }
+      break
+    }
+    
+    case 'click_at': {
+      const x = args.x as number
+      const y = args.y as number
+      const options = clickArgs(args)
+      await clickAt(page, x, y, options)
+      await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {})
+      entry = { action: 'click_at', x, y, ...options }
+      outcome = { result: { url: page.url(), message: `${describeClick(options)}しました: (${x}, ${y})` } }
+      break
+    }
+    
+    case 'hover': {
+      const target = await resolveTarget(page, state, ref, selector)
+      await locateInFrames(page, target.selector, target.frame).hover({ timeout: 10000 })
+      entry = { action: 'hover', ...target }
+      outcome = { result: { url: page.url(), message: `ホバーしました: ${ref || selector}` } }
+      break
+    }
+    
+    case 'select_option': {
+      const values = args.values as string[] | undefined
+      const labels = args.labels as string[] | undefined
+      const target = await resolveTarget(page, state, ref, selector)
+      const selected = await locateInFrames(page, target.selector, target.frame).selectOption(
+        values?.length ? values : labels!.map(label => ({ label })),
+        { timeout: 10000 }
+      )
+      // Journal the values, which identify the options even when given by label
+      entry = { action: 'select', ...target, values: selected }
+      outcome = { result: { url: page.url(), selected, message: `選択しました: ${selected.join(', ')}` } }
+      break
+    }
+    
+    case 'check':
+    case 'uncheck': {
+      const target = await resolveTarget(page, state, ref, selector)
+      await locateInFrames(page, target.selector, target.frame).setChecked(action === 'check', { timeout: 10000 })
+      entry = { action, ...target }
+      outcome = {
+        result: { url: page.url(), message: `${action === 'check' ? 'チェックしました' : 'チェックを外しました'}: ${ref || selector}` },
+      }
+      break
+    }
+    
+    case 'drag': {
+      const targetRef = args.target_ref as string | undefined
+      const targetSelector = args.target_selector as string | undefined
+      const source = await resolveTarget(page, state, ref, selector)
+      const destination = await resolveTarget(page, state, targetRef, targetSelector)
+      await locateInFrames(page, source.selector, source.frame)
+        .dragTo(locateInFrames(page, destination.selector, destination.frame), { timeout: 10000 })
+      entry = { action: 'drag', ...source, target: destination }
+      outcome = { result: { url: page.url(), message: `ドラッグしました: ${ref || selector} → ${targetRef || targetSelector}` } }
+      break
+    }
+    
+    case 'get_form': {
+      const target = ref || selector ? await resolveTarget(page, state, ref, selector) : undefined
+      const locator = target ? locateInFrames(page, target.selector, target.frame) : page.locator(':root')
+      const { fields, errors } = await locator.evaluate(inspectForm, undefined, { timeout: 10000 })
+      outcome = { result: { url: page.url(), fields, ...(errors.length > 0 ? { errors } : {}) } }
+      break
+    }
+    
+    case 'fill_form': {
+      const values = args.fields as Record<string, unknown>
+      const target = ref || selector ? await resolveTarget(page, state, ref, selector) : undefined
+      const scope = target ? locateInFrames(page, target.selector, target.frame) : page.locator(':root')
+      const frame = target?.frame
+      const { fields } = await scope.evaluate(inspectForm, undefined, { timeout: 10000 })
+      
+      // Field selectors are relative to the document of the form, so they work for replay too
+      const at = (fieldSelector: string) => ({ selector: fieldSelector, ...(frame ? { frame } : {}) })
+      const results: Array<Record<string, unknown>> = []
+      entries = []
+      
+      for (const [label, value] of Object.entries(values)) {
+        const field = findFormField(fields, label)
+        if (!field) {
+          results.push({ label, success: false, error: 'No field with this label or name' })
+          continue
+        }
+        
+        try {
+          let fieldEntry: JournalEntry
+          if (field.type === 'checkbox') {
+            const checked = isTruthy(value)
+            await locateInFrames(page, field.selector, frame).setChecked(checked, { timeout: 10000 })
+            fieldEntry = { action: checked ? 'check' : 'uncheck', ...at(field.selector) }
+          } else if (field.type === 'radio') {
+            const wanted = String(value).toLowerCase()
+            const option = field.options?.find(o => o.value.toLowerCase() === wanted) ??
+              field.options?.find(o => o.label.toLowerCase() === wanted)
+            if (!option) throw new Error(`No option "${value}" (expected one of: ${field.options?.map(o => o.label || o.value).join(', ')})`)
+            await locateInFrames(page, option.selector!, frame).check({ timeout: 10000 })
+            fieldEntry = { action: 'check', ...at(option.selector!) }
+          } else if (field.type.startsWith('select')) {
+            // selectOption matches either the value or the label of an option
+            const selected = await locateInFrames(page, field.selector, frame).selectOption(
+              Array.isArray(value) ? value.map(String) : String(value),
+              { timeout: 10000 }
+            )
+            fieldEntry = { action: 'select', ...at(field.selector), values: selected }
+          } else if (field.type === 'file') {
+            throw new Error('Use browser_upload_file for file inputs')
+          } else {
+            await locateInFrames(page, field.selector, frame).fill(String(value), { timeout: 10000 })
+            fieldEntry = { action: 'fill', ...at(field.selector), value: String(value) }
+          }
+          // Many forms validate a field when it loses focus
+          await locateInFrames(page, field.selector, frame).first().blur().catch(() => {})
+          entries.push(fieldEntry)
+          results.push({ label, field: field.label, success: true })
+        } catch (error) {
+          results.push({ label, field: field.label, success: false, error: error instanceof Error ? error.message : String(error) })
+        }
+      }
+      
+      const after = await scope.evaluate(inspectForm, undefined, { timeout: 10000 })
+      const validationErrors = after.fields
+        .filter(field => field.validation_message)
+        .map(field => ({ label: field.label, message: field.validation_message }))
+      const failed = results.filter(result => !result.success).length
+      
+      outcome = {
+        result: {
+          url: page.url(),
+          filled: results.length - failed,
+          failed,
+          fields: results,
+          ...(validationErrors.length > 0 ? { validation_errors: validationErrors } : {}),
+          ...(after.errors.length > 0 ? { errors: after.errors } : {}),
+        },
+      }
+      break
+    }
+    
+    case 'extract': {
+      const mode = (args.mode as string | undefined) ?? 'markdown'
+      const maxLength = (args.max_length as number | undefined) ?? DEFAULT_EXTRACT_MAX_LENGTH
+      const cursor = (args.cursor as number | undefined) ?? 0
+      const target = ref || selector ? await resolveTarget(page, state, ref, selector) : undefined
+      const locator = target ? locateInFrames(page, target.selector, target.frame) : page.locator(':root')
+      const extracted = await locator.evaluate(extractContent, mode, { timeout: 10000 })
+      
+      let result: Record<string, unknown>
+      if (typeof extracted === 'string') {
+        const content = extracted.slice(cursor, cursor + maxLength)
+        const next = cursor + maxLength < extracted.length ? cursor + maxLength : undefined
+        result = { content, total_length: extracted.length, ...(next !== undefined ? { next_cursor: next } : {}) }
+      } else if (mode === 'links') {
+        const links = extracted as Array<{ text: string; url: string }>
+        const { items, next } = paginateItems(links, cursor, maxLength)
+        result = { links: items, total: links.length, ...(next !== undefined ? { next_cursor: next } : {}) }
+      } else {
+        // Tables are paged by row; each page lists the rows grouped under their table
+        const tables = extracted as ExtractedTable[]
+        const rows = tables.flatMap((table, index) => table.rows.map(row => ({ index, row })))
+        const { items, next } = paginateItems(rows, cursor, maxLength)
+        const pageTables = tables
+          .map((table, index) => ({ index, table, rows: items.filter(item => item.index === index).map(item => item.row) }))
+          .filter(({ table, rows }) => rows.length > 0 || table.rows.length === 0 && cursor === 0)
+          .map(({ index, table, rows }) => ({ table: index, ...(table.caption ? { caption: table.caption } : {}), headers: table.headers, rows }))
+        result = {
+          tables: pageTables,
+          table_count: tables.length,
+          total_rows: rows.length,
+          ...(next !== undefined ? { next_cursor: next } : {}),
+        }
+      }
+      
+      outcome = { result: { url: page.url(), mode, ...result } }
+      break
+    }
+    
+    case 'pdf': {
+      const headerTemplate = args.header_template as string | undefined
+      const footerTemplate = args.footer_template as string | undefined
+      // page.pdf() renders with print media, like the browser's print dialog
+      const pdf = await page.pdf({
+        format: (args.format as string | undefined) ?? 'A4',
+        landscape: (args.landscape as boolean | undefined) ?? false,
+        printBackground: (args.print_background as boolean | undefined) ?? true,
+        margin: args.margin as { top?: string; right?: string; bottom?: string; left?: string } | undefined,
+        pageRanges: args.page_ranges as string | undefined,
+        displayHeaderFooter: headerTemplate !== undefined || footerTemplate !== undefined,
+        // Chromium prints its default header or footer when only the other template is given
+        headerTemplate: headerTemplate ?? '<span></span>',
+        footerTemplate: footerTemplate ?? '<span></span>',
+      })
+      if (pdf.length > PDF_MAX_BYTES) {
+        throw new Error(`PDF is ${pdf.length} bytes, which exceeds the ${PDF_MAX_BYTES}-byte limit; use page_ranges to print fewer pages`)
+      }
+      spendBinaryBudget(state, pdf.length, 'PDF')
+      
+      const data = pdf.toString('base64')
+      if (args.output === 'base64') {
+        outcome = { result: { url: page.url(), size: pdf.length, content_base64: data } }
+      } else {
+        const name = (await page.title()).replace(/[^\p{L}\p{N}_-]+/gu, '_').slice(0, 80) || 'page'
+        outcome = {
+          result: { url: page.url(), size: pdf.length },
+          resource: { uri: `pdf://${encodeURIComponent(name)}.pdf`, mimeType: 'application/pdf', blob: data },
+        }
+      }
+      break
+    }
+    
+    case 'evaluate': {
+      const body = args.function_body as string | undefined
+      const target = ref || selector ? await resolveTarget(page, state, ref, selector) : undefined
+      const value = await evaluateScript(
+        page,
+        body ?? (args.expression as string),
+        body !== undefined,
+        target && locateInFrames(page, target.selector, target.frame)
+      )
+      
+      const serialized = JSON.stringify(value ?? null)
+      const size = Buffer.byteLength(serialized)
+      if (size > BROWSER_EVALUATE_MAX_RESULT_BYTES) {
+        throw new Error(`Result is ${size} bytes, which exceeds the ${BROWSER_EVALUATE_MAX_RESULT_BYTES}-byte limit; return a smaller value`)
+      }
+      // Side effects of the script are not journaled, so they do not survive to the next call unless the session is persistent
+      outcome = { result: { url: page.url(), result: JSON.parse(serialized) } }
+      break
+    }
+    
+    case 'scroll': {
+      const delta = scrollDelta((args.direction as string | undefined) ?? 'down', (args.amount as number | undefined) ?? DEFAULT_SCROLL_AMOUNT)
+      const target = ref || selector ? await resolveTarget(page, state, ref, selector) : undefined
+      const position = await scroll(page, target && locateInFrames(page, target.selector, target.frame), delta)
+      // Give infinite scroll a chance to load the next items
+      await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {})
+      entry = { action: 'scroll', ...target, ...delta }
+      outcome = { result: { url: page.url(), ...position, message: `スクロールしました: ${ref || selector || 'ページ'}` } }
+      break
+    }
+    
+    case 'fill': {
+      const value = args.value as string
+      const target = await resolveTarget(page, state, ref, selector)
+      await locateInFrames(page, target.selector, target.frame).fill(value, { timeout: 10000 })
+      entry = { action: 'fill', ...target, value }
+      outcome = { result: { url: page.url(), message: `入力しました: ${ref || selector}` } }
+      break
+    }
+    
+    case 'type': {
+      const text = args.text as string
+      const submit = args.submit as boolean
+      const target = await resolveTarget(page, state, ref, selector)
+      await locateInFrames(page, target.selector, target.frame).click({ timeout: 10000 })
+      await page.keyboard.type(text, { delay: 50 })
+      
+      if (submit) {
+        await page.keyboard.press('Enter')
+        await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {})
+      }
+      
+      entry = { action: 'type', ...target, value: text, submit }
+      outcome = { result: { url: page.url(), message: `タイプしました: ${text}${submit ? ' (送信済み)' : ''}` } }
+      break
+    }
+    
+    case 'upload_file': {
+      const files = parseUploadFiles(args.files)
+      const target = await resolveTarget(page, state, ref, selector)
+      await locateInFrames(page, target.selector, target.frame).setInputFiles(toFilePayloads(files), { timeout: 10000 })
+      entry = { action: 'upload', ...target, files: files.map(({ name, mimeType }) => ({ name, mimeType })) }
+      outcome = { result: { url: page.url(), message: `ファイルを選択しました: ${files.map(file => file.name).join(', ')}` } }
+      break
+    }
+    
+    case 'get_text': {
+      const target = await resolveTarget(page, state, ref, selector)
+      const text = await locateInFrames(page, target.selector, target.frame).textContent({ timeout: 10000 })
+      outcome = { result: { text: text || '' } }
+      break
+    }
+    
+    case 'screenshot': {
+      const type = (args.format as 'png' | 'jpeg' | undefined) ?? 'jpeg'
+      const options = {
+        type,
+        ...(type === 'jpeg' ? { quality: (args.quality as number | undefined) ?? 80 } : {}),
+        timeout: 10000,
+      }
+      const target = ref || selector ? await resolveTarget(page, state, ref, selector) : undefined
+      
+      let marks: Array<{ ref: string; role: string; name: string }> | undefined
+      if (args.annotate) {
+        // Annotate with fresh refs so the labels in the image can be used right away
+        const { refs } = await getAccessibilitySnapshot(page, state.refsUrl === page.url() ? state.refs : undefined)
+        state.refs = refs
+        state.refsUrl = page.url()
+        marks = (await drawRefMarks(page, refs)).map(id => ({ ref: id, role: refs[id].role, name: refs[id].name }))
+      }
+      
+      let screenshot: Buffer
+      try {
+        screenshot = target
+          ? await locateInFrames(page, target.selector, target.frame).screenshot(options)
+          : await page.screenshot({
+            ...options,
+            fullPage: (args.full_page as boolean) || false,
+            ...(args.clip ? { clip: args.clip as { x: number; y: number; width: number; height: number } } : {}),
+          })
+      } finally {
+        if (marks) await removeRefMarks(page)
+      }
+      spendBinaryBudget(state, screenshot.length, 'Screenshot')
+      
+      outcome = {
+        result: { url: page.url(), ...(marks ? { marks } : {}) },
+        image: { data: screenshot.toString('base64'), mimeType: `image/${type}` },
+      }
+      break
+    }
+    
+    case 'wait': {
+      const time = args.time as number | undefined
+      const text = args.text as string | undefined
+      
+      let waitResult = ''
+      if (time) {
+        await page.waitForTimeout(time * 1000)
+        waitResult = `${time}秒待機しました`
+      } else if (text) {
+        await page.waitForSelector(`text=${text}`, { timeout: 30000 })
+        waitResult = `テキスト "${text}" が出現しました`
+      } else if (selector) {
+        await page.waitForSelector(selector, { timeout: 30000 })
+        waitResult = `要素 "${selector}" が出現しました`
+      }
+      
+      outcome = { result: { url: page.url(), message: waitResult } }
+      break
+    }
+    
+    case 'press_key': {
+      const key = args.key as string
+      await page.keyboard.press(key)
+      await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {})
+      entry = { action: 'press_key', key }
+      outcome = { result: { url: page.url(), message: `キー "${key}" を押しました` } }
+      break
+    }
+    
+    default:
+      throw new Error(`Unknown action: ${action}`)
+  }
+  
+  return { outcome, entries: entries ?? (entry ? [entry] : []) }
+}
+
+async function saveStepState(
+  context: BrowserContext,
+  page: Page,
+  sessionId: string,
+  state: StepState,
+  httpCredentials?: { username: string; password: string }
+): Promise<BrowserSession> {
+  const newSession = await extractSessionData(context, page, sessionId, state.refs, httpCredentials, state.journal)
+  newSession.localStorage = mergeLocalStorage(state.session?.localStorage, page.url(), newSession.localStorage)
+  newSession.refsUrl = state.refsUrl
+  newSession.lastSnapshot = state.lastSnapshot
+  newSession.history = state.history
+  if (state.session?.networkCapture) {
+    newSession.networkCapture = state.session.networkCapture
+  }
+  if (state.collectNetwork) {
+    await appendLog('network', sessionId, await state.collectNetwork(), MAX_NETWORK_ENTRIES)
+  }
+  await appendLog('console', sessionId, state.console.entries, MAX_CONSOLE_ENTRIES)
+  if (state.session?.routes) {
+    newSession.routes = state.session.routes
+  }
+  // nextDialog is not carried over: it applied to this call only
+  if (state.session?.dialogPolicy) {
+    newSession.dialogPolicy = state.session.dialogPolicy
+  }
+  if (state.session?.emulation) {
+    newSession.emulation = state.session.emulation
+  }
+  if (state.session?.persistent) {
+    newSession.persistent = true
+    newSession.remote = await keepRemoteAlive(page)
+  }
+  newSession.tabs = await updateActiveTab(state.tabs, state.activeTabId, page, newSession.remote?.targetId)
+  newSession.activeTabId = state.activeTabId
+  await saveSession(newSession)
+  return newSession
+}
+
+// Capture filters shared by browser_open and browser_network_requests
+const NETWORK_CAPTURE_PROPERTIES = {
+  url_filter: { type: 'string', description: 'URLに含まれる文字列で絞り込み' },
+  resource_types: {
+    type: 'array',
+    items: { type: 'string' },
+    description: 'リソースの種類で絞り込み（document, xhr, fetch, script, stylesheet, imageなど）',
+  },
+  max_body_size: { type: 'number', description: `記録するボディの最大バイト数（start、デフォルト: ${DEFAULT_MAX_BODY_SIZE}）` },
+}
+
+// Emulation profile accepted by browser_open and browser_set_emulation
+const EMULATION_PROPERTIES = {
+  device: { type: 'string', description: 'Playwrightのデバイス名（例: "iPhone 13", "Pixel 7", "iPad Mini"）。他の項目で個別に上書きできます' },
+  viewport: {
+    type: 'object',
+    description: 'ビューポートのサイズ（デフォルト: 1280x720）',
+    properties: {
+      width: { type: 'number', description: '幅（px）' },
+      height: { type: 'number', description: '高さ（px）' },
+    },
+    required: ['width', 'height'],
+  },
+  device_scale_factor: { type: 'number', description: 'デバイスピクセル比' },
+  is_mobile: { type: 'boolean', description: 'モバイル端末として扱うか（meta viewportが有効になります）' },
+  has_touch: { type: 'boolean', description: 'タッチ操作に対応するか' },
+  user_agent: { type: 'string', description: 'User-Agent' },
+  locale: { type: 'string', description: 'ロケール（例: ja-JP, en-US）。navigator.languageとAccept-Languageに反映されます' },
+  timezone: { type: 'string', description: 'タイムゾーン（例: Asia/Tokyo, America/New_York）' },
+  color_scheme: { type: 'string', enum: COLOR_SCHEMES, description: 'prefers-color-schemeの値（light, dark, no-preference）' },
+  reduced_motion: { type: 'string', enum: REDUCED_MOTION, description: 'prefers-reduced-motionの値（reduce, no-preference）' },
+  geolocation: {
+    type: 'object',
+    description: '位置情報。指定すると位置情報の権限も許可されます',
+    properties: {
+      latitude: { type: 'number', description: '緯度' },
+      longitude: { type: 'number', description: '経度' },
+      accuracy: { type: 'number', description: '精度（m）' },
+    },
+    required: ['latitude', 'longitude'],
+  },
+  permissions: {
+    type: 'array',
+    items: { type: 'string' },
+    description: '許可する権限（geolocation, notifications, camera, microphone, clipboard-readなど）',
+  },
+}
+
+// Click options shared by browser_click and browser_click_at
+const CLICK_PROPERTIES = {
+  button: { type: 'string', enum: MOUSE_BUTTONS, description: 'マウスボタン（left, right, middle）', default: 'left' },
+  double: { type: 'boolean', description: 'ダブルクリックするか', default: false },
+  modifiers: {
+    type: 'array',
+    items: { type: 'string', enum: KEY_MODIFIERS },
+    description: '押しながらクリックする修飾キー（Alt, Control, ControlOrMeta, Meta, Shift）',
+  },
+}
+
+// Tool definitions
 const tools: Tool[] = [
   {
-    name: 'browser_open',
-    description: 'URLを開いてブラウザセッションを開始します。セッションIDが返されるので、以降の操作で使用してください。Basic認証が必要なサイトの場合はbasic_authを指定してください。',
+    name: 'browser_open',
+    description: 'URLを開いてブラウザセッションを開始します。セッションIDが返されるので、以降の操作で使用してください。Basic認証が必要なサイトの場合はbasic_authを指定してください。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        url: { type: 'string', description: '開くURL' },
+        session_id: { type: 'string', description: '既存のセッションID（任意）。指定すると前回のCookies/localStorageを復元します' },
+        basic_auth: {
+          type: 'object',
+          description: 'Basic認証の資格情報（任意）。ユーザー名とパスワードを指定します',
+          properties: {
+            username: { type: 'string', description: 'ユーザー名' },
+            password: { type: 'string', description: 'パスワード' },
+          },
+          required: ['username', 'password'],
+        },
+        persistent: {
+          type: 'boolean',
+          description: 'リモートブラウザを呼び出し間で起動したままにするか（任意）。ページの状態がそのまま維持され、ブラウザが失効した場合はCookies/localStorageから復元します',
+        },
+        wait_until: { type: 'string', enum: WAIT_UNTIL_STATES, description: '読み込み完了とみなすタイミング（load, domcontentloaded, networkidle, commit）', default: 'networkidle' },
+        capture_network: {
+          type: 'object',
+          description: 'ネットワークキャプチャを有効にします（任意）。以降の操作で発生したリクエストをbrowser_network_requestsで確認できます',
+          properties: NETWORK_CAPTURE_PROPERTIES,
+        },
+        emulation: {
+          type: 'object',
+          description: 'デバイス・ロケール・権限のエミュレーション（任意）。セッションに保存され、以降の操作でも使われます',
+          properties: EMULATION_PROPERTIES,
+        },
+      },
+      required: ['url'],
+    },
+  },
+  {
+    name: 'browser_navigate',
+    description: 'セッションを維持したまま別のURLに移動します。移動先はセッションの履歴に追加され、browser_backで戻れます。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '移動先のURL' },
+        wait_until: { type: 'string', enum: WAIT_UNTIL_STATES, description: '読み込み完了とみなすタイミング（load, domcontentloaded, networkidle, commit）', default: 'networkidle' },
+      },
+      required: ['session_id', 'url'],
+    },
+  },
+  {
+    name: 'browser_back',
+    description: 'セッションの履歴で前のページに戻ります。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        wait_until: { type: 'string', enum: WAIT_UNTIL_STATES, description: '読み込み完了とみなすタイミング（load, domcontentloaded, networkidle, commit）', default: 'networkidle' },
+      },
+      required: ['session_id'],
+    },
+  },
+  {
+    name: 'browser_forward',
+    description: 'セッションの履歴で次のページに進みます。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        wait_until: { type: 'string', enum: WAIT_UNTIL_STATES, description: '読み込み完了とみなすタイミング（load, domcontentloaded, networkidle, commit）', default: 'networkidle' },
+      },
+      required: ['session_id'],
+    },
+  },
+  {
+    name: 'browser_reload',
+    description: '現在のページを再読み込みします。入力内容などのページ上の状態はリセットされます。',
     inputSchema: {
       type: 'object',
       properties: {
-        url: { type: 'string', description: '開くURL' },
-        session_id: { type: 'string', description: '既存のセッションID（任意）。指定すると前回のCookies/localStorageを復元します' },
-        basic_auth: {
-          type: 'object',
-          description: 'Basic認証の資格情報（任意）。ユーザー名とパスワードを指定します',
-          properties: {
-            username: { type: 'string', description: 'ユーザー名' },
-            password: { type: 'string', description: 'パスワード' },
-          },
-          required: ['username', 'password'],
-        },
+        session_id: { type: 'string', description: 'セッションID' },
+        wait_until: { type: 'string', enum: WAIT_UNTIL_STATES, description: '読み込み完了とみなすタイミング（load, domcontentloaded, networkidle, commit）', default: 'networkidle' },
       },
-      required: ['url'],
+      required: ['session_id'],
     },
   },
   {
     name: 'browser_snapshot',
-    description: 'ページのアクセシビリティスナップショットを取得します。要素にはref（@e1, @e2など）が付与され、クリックや入力操作で使用できます。',
+    description: 'ページのアクセシビリティスナップショットを取得します。要素にはref（@e1, @e2など）が付与され、クリックや入力操作で使用できます。refはページが遷移するまで有効で、古くなったrefを使うとエラーになるので再度スナップショットを取得してください。',
     inputSchema: {
       type: 'object',
       properties: {
         session_id: { type: 'string', description: 'セッションID' },
         url: { type: 'string', description: 'スナップショットを取得するURL（session_idがない場合に使用）' },
+        diff: {
+          type: 'boolean',
+          description: '前回のスナップショットとの差分（追加・削除・変更された要素）のみを返すか。URLが変わった場合や差分の方が大きい場合は全体を返します',
+          default: false,
+        },
+        ref: { type: 'string', description: 'スナップショットの範囲とする要素のref（任意）' },
+        selector: { type: 'string', description: 'スナップショットの範囲とする要素のCSSセレクタ（任意）' },
+        max_depth: { type: 'number', description: '出力する階層の深さの上限（任意）' },
       },
     },
   },
   {
     name: 'browser_click',
-    description: '要素をクリックします。ref（@e1など）またはCSSセレクタを指定できます。',
+    description: '要素をクリックします。ref（@e1など）またはCSSセレクタを指定できます。ダブルクリックや右クリック、修飾キーを押しながらのクリックもできます。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
+        ref: { type: 'string', description: 'スナップショットのref（例: @e1）' },
+        selector: { type: 'string', description: 'CSSセレクタ（refがない場合に使用）' },
+        ...CLICK_PROPERTIES,
+      },
+    },
+  },
+  {
+    name: 'browser_click_at',
+    description: 'ビューポート上の座標をクリックします。canvasなど、要素を指定できないUIの操作に使用します。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
+        x: { type: 'number', description: 'X座標（ピクセル）' },
+        y: { type: 'number', description: 'Y座標（ピクセル）' },
+        ...CLICK_PROPERTIES,
+      },
+      required: ['x', 'y'],
+    },
+  },
+  {
+    name: 'browser_hover',
+    description: '要素にマウスを重ねます。ホバーで表示されるメニューなどを開く場合に使用します。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
+        ref: { type: 'string', description: 'スナップショットのref（例: @e1）' },
+        selector: { type: 'string', description: 'CSSセレクタ（refがない場合に使用）' },
+      },
+    },
+  },
+  {
+    name: 'browser_select_option',
+    description: 'セレクトボックス（<select>）の選択肢を値またはラベルで選択します。複数選択できるセレクトボックスでは複数指定できます。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
+        ref: { type: 'string', description: 'スナップショットのref（例: @e1）' },
+        selector: { type: 'string', description: 'CSSセレクタ（refがない場合に使用）' },
+        values: { type: 'array', items: { type: 'string' }, description: '選択する選択肢のvalue' },
+        labels: { type: 'array', items: { type: 'string' }, description: '選択する選択肢の表示テキスト（valuesがない場合に使用）' },
+      },
+    },
+  },
+  {
+    name: 'browser_check',
+    description: 'チェックボックスやラジオボタンをチェックします。すでにチェックされている場合は何もしません。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
+        ref: { type: 'string', description: 'スナップショットのref（例: @e1）' },
+        selector: { type: 'string', description: 'CSSセレクタ（refがない場合に使用）' },
+      },
+    },
+  },
+  {
+    name: 'browser_uncheck',
+    description: 'チェックボックスのチェックを外します。すでに外れている場合は何もしません。',
     inputSchema: {
       type: 'object',
       properties: {
@@ -266,6 +3650,41 @@ const tools: Tool[] = [
       },
     },
   },
+  {
+    name: 'browser_drag',
+    description: '要素を別の要素までドラッグ＆ドロップします。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
+        ref: { type: 'string', description: 'ドラッグする要素のref（例: @e1）' },
+        selector: { type: 'string', description: 'ドラッグする要素のCSSセレクタ（refがない場合に使用）' },
+        target_ref: { type: 'string', description: 'ドロップ先の要素のref' },
+        target_selector: { type: 'string', description: 'ドロップ先の要素のCSSセレクタ（target_refがない場合に使用）' },
+      },
+    },
+  },
+  {
+    name: 'browser_scroll',
+    description: 'ページまたは要素をスクロールします。無限スクロールで続きを読み込む場合などに使用します。スクロール後の位置と、末尾に達したかが返されます。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
+        ref: { type: 'string', description: 'スクロールする要素のref（省略時はページ）' },
+        selector: { type: 'string', description: 'スクロールする要素のCSSセレクタ（省略時はページ）' },
+        direction: {
+          type: 'string',
+          enum: SCROLL_DIRECTIONS,
+          description: 'スクロールする方向（top, bottomは先頭・末尾まで移動）',
+          default: 'down',
+        },
+        amount: { type: 'number', description: 'スクロール量（ピクセル）', default: DEFAULT_SCROLL_AMOUNT },
+      },
+    },
+  },
   {
     name: 'browser_fill',
     description: 'フォームフィールドに値を入力します（既存の値を置き換え）。',
@@ -310,15 +3729,127 @@ const tools: Tool[] = [
       },
     },
   },
+  {
+    name: 'browser_get_form',
+    description: 'フォームの入力項目を一覧します。各項目のラベル、種類、必須かどうか、現在の値、選択肢、表示されているバリデーションメッセージが返されます。ref/selectorを省略するとページ内の最初のフォームが対象になります。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
+        ref: { type: 'string', description: 'フォームまたはその範囲の要素のref（任意）' },
+        selector: { type: 'string', description: 'フォームまたはその範囲の要素のCSSセレクタ（任意）' },
+      },
+    },
+  },
+  {
+    name: 'browser_fill_form',
+    description: 'フォームの複数の項目を1回でまとめて入力します。ラベル（またはname）と値の組を指定します。テキスト、セレクトボックス、チェックボックス（true/false）、ラジオボタン（選択肢のラベルまたは値）、日付（YYYY-MM-DD）に対応します。項目ごとの結果と、入力後に表示されたバリデーションエラーが返されます。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
+        ref: { type: 'string', description: 'フォームまたはその範囲の要素のref（任意）' },
+        selector: { type: 'string', description: 'フォームまたはその範囲の要素のCSSセレクタ（任意）' },
+        fields: {
+          type: 'object',
+          description: 'ラベルと値の組（例: {"メールアドレス": "a@example.com", "利用規約に同意": true}）',
+          additionalProperties: { type: ['string', 'boolean', 'number', 'array'] },
+        },
+      },
+      required: ['fields'],
+    },
+  },
+  {
+    name: 'browser_extract',
+    description: 'ページの内容を読みやすい形式で取得します。markdown: ナビゲーションなどを除いた本文のMarkdown、links: 重複を除いたリンクの一覧（絶対URL）、tables: 表をヘッダーをキーにしたJSONの行に変換したもの。出力が長い場合はnext_cursorを指定して続きを取得します。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '取得するURL（session_idがない場合に使用）' },
+        mode: { type: 'string', enum: EXTRACT_MODES, description: '取得する形式', default: 'markdown' },
+        ref: { type: 'string', description: '対象とする要素のref（省略時はページの本文）' },
+        selector: { type: 'string', description: '対象とする要素のCSSセレクタ（省略時はページの本文）' },
+        max_length: { type: 'number', description: '1回に返す最大文字数', default: DEFAULT_EXTRACT_MAX_LENGTH },
+        cursor: { type: 'number', description: '続きを取得する位置（前回の結果のnext_cursor）', default: 0 },
+      },
+    },
+  },
+  {
+    name: 'browser_evaluate',
+    description: 'ページ内でJavaScriptを実行し、結果をJSONで返します。expressionには式（例: window.__APP_STATE__）、function_bodyにはreturnを含む関数の本体を指定します。refやselectorを指定すると、その要素が引数elementとして渡されます。サーバーで有効にされている場合のみ使用できます。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
+        expression: { type: 'string', description: '評価する式' },
+        function_body: { type: 'string', description: '実行する関数の本体（expressionがない場合に使用）' },
+        ref: { type: 'string', description: '引数elementとして渡す要素のref（任意）' },
+        selector: { type: 'string', description: '引数elementとして渡す要素のCSSセレクタ（任意）' },
+      },
+    },
+  },
   {
     name: 'browser_screenshot',
-    description: 'ページのスクリーンショットを取得します（Base64形式）。',
+    description: 'ページまたは要素のスクリーンショットを取得します（Base64形式）。annotateを指定すると、スナップショットのrefを番号付きの枠で画像に描き込み、画像の要素をそのままrefで操作できます。',
     inputSchema: {
       type: 'object',
       properties: {
         session_id: { type: 'string', description: 'セッションID' },
         url: { type: 'string', description: 'スクリーンショットを取得するURL（session_idがない場合に使用）' },
         full_page: { type: 'boolean', description: 'ページ全体のスクリーンショットを取得するか', default: false },
+        ref: { type: 'string', description: '撮影する要素のref（任意）' },
+        selector: { type: 'string', description: '撮影する要素のCSSセレクタ（任意）' },
+        clip: {
+          type: 'object',
+          description: '撮影する範囲（任意）',
+          properties: {
+            x: { type: 'number' },
+            y: { type: 'number' },
+            width: { type: 'number' },
+            height: { type: 'number' },
+          },
+          required: ['x', 'y', 'width', 'height'],
+        },
+        format: { type: 'string', enum: ['png', 'jpeg'], description: '画像形式', default: 'jpeg' },
+        quality: { type: 'number', description: 'JPEGの品質（0〜100）。formatがjpegの場合のみ指定でき、省略時は80' },
+        annotate: { type: 'boolean', description: 'refを番号付きの枠で描き込むか', default: false },
+      },
+    },
+  },
+  {
+    name: 'browser_pdf',
+    description: '現在のページをPDFとして出力します。セッションの状態（ログインや入力内容）を復元したページを印刷用のスタイルで出力します。Chromiumでのみ使用できます。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: 'PDFにするURL（session_idがない場合に使用）' },
+        format: { type: 'string', enum: PDF_FORMATS, description: '用紙サイズ', default: 'A4' },
+        landscape: { type: 'boolean', description: '横向きにするか', default: false },
+        print_background: { type: 'boolean', description: '背景色や背景画像を印刷するか', default: true },
+        margin: {
+          type: 'object',
+          description: '余白（例: "1cm", "10mm", "0.5in"）',
+          properties: {
+            top: { type: 'string' },
+            right: { type: 'string' },
+            bottom: { type: 'string' },
+            left: { type: 'string' },
+          },
+        },
+        header_template: { type: 'string', description: 'ヘッダーのHTMLテンプレート（pageNumber, totalPages, title, url, dateクラスの要素に値が入ります）' },
+        footer_template: { type: 'string', description: 'フッターのHTMLテンプレート' },
+        page_ranges: { type: 'string', description: '出力するページ（例: "1-3, 5"）' },
+        output: {
+          type: 'string',
+          enum: ['resource', 'base64'],
+          description: '返却方法（resource: MCPリソース、base64: 結果のJSONにBase64で含める）',
+          default: 'resource',
+        },
       },
     },
   },
@@ -337,16 +3868,279 @@ const tools: Tool[] = [
     },
   },
   {
-    name: 'browser_press_key',
-    description: 'キーボードのキーを押下します。',
+    name: 'browser_press_key',
+    description: 'キーボードのキーを押下します。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
+        key: { type: 'string', description: 'キー名（例: Enter, Tab, ArrowDown, Escape）' },
+      },
+      required: ['key'],
+    },
+  },
+  {
+    name: 'browser_upload_file',
+    description: 'ファイル選択欄（<input type=file>）にファイルを設定します。ファイルの内容はBase64で指定します。ファイルの内容はセッションに保存されないため、フォームの送信まで同じbrowser_run_steps呼び出しで行ってください（永続セッションを除く）。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
+        ref: { type: 'string', description: 'スナップショットのref（例: @e1）' },
+        selector: { type: 'string', description: 'CSSセレクタ（refがない場合に使用）' },
+        files: {
+          type: 'array',
+          description: 'アップロードするファイル',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'ファイル名' },
+              content: { type: 'string', description: 'ファイルの内容（Base64）' },
+              mime_type: { type: 'string', description: 'MIMEタイプ（省略時は拡張子から判定）' },
+            },
+            required: ['name', 'content'],
+          },
+        },
+      },
+      required: ['files'],
+    },
+  },
+  {
+    name: 'browser_run_steps',
+    description: '複数の操作を1つのブラウザ接続でまとめて実行します。各ステップは個別ツールと同じ引数を受け取り、ステップごとの結果が返されます。セッションは全ステップの実行後に1回だけ保存されます。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        url: { type: 'string', description: '開始URL（session_idがない場合に使用。最初のステップがopenなら省略可）' },
+        steps: {
+          type: 'array',
+          description: '順番に実行するステップ',
+          items: {
+            type: 'object',
+            properties: {
+              action: { type: 'string', enum: STEP_ACTIONS, description: '操作の種類（browser_を除いたツール名）' },
+              url: { type: 'string', description: '開くURL（open, navigate）' },
+              ref: { type: 'string', description: 'スナップショットのref（例: @e1）' },
+              selector: { type: 'string', description: 'CSSセレクタ（refがない場合、またはwaitの対象）' },
+              value: { type: 'string', description: '入力する値（fill）' },
+              text: { type: 'string', description: '入力するテキスト（type）または出現を待機するテキスト（wait）' },
+              submit: { type: 'boolean', description: '入力後にEnterキーを押すか（type）' },
+              key: { type: 'string', description: 'キー名（press_key）' },
+              files: { type: 'array', items: { type: 'object' }, description: 'アップロードするファイル（upload_file）。各要素はname, content（Base64）, mime_type' },
+              ...CLICK_PROPERTIES,
+              x: { type: 'number', description: 'X座標（click_at）' },
+              y: { type: 'number', description: 'Y座標（click_at）' },
+              values: { type: 'array', items: { type: 'string' }, description: '選択する選択肢のvalue（select_option）' },
+              labels: { type: 'array', items: { type: 'string' }, description: '選択する選択肢の表示テキスト（select_option）' },
+              target_ref: { type: 'string', description: 'ドロップ先の要素のref（drag）' },
+              target_selector: { type: 'string', description: 'ドロップ先の要素のCSSセレクタ（drag）' },
+              direction: { type: 'string', enum: SCROLL_DIRECTIONS, description: 'スクロールする方向（scroll）' },
+              amount: { type: 'number', description: 'スクロール量（scroll）' },
+              fields: { type: 'object', description: 'ラベルと値の組（fill_form）' },
+              mode: { type: 'string', enum: EXTRACT_MODES, description: '取得する形式（extract）' },
+              max_length: { type: 'number', description: '1回に返す最大文字数（extract）' },
+              cursor: { type: 'number', description: '続きを取得する位置（extract）' },
+              expression: { type: 'string', description: '評価する式（evaluate）' },
+              function_body: { type: 'string', description: '実行する関数の本体（evaluate）' },
+              time: { type: 'number', description: '待機する秒数（wait）' },
+              full_page: { type: 'boolean', description: 'ページ全体を撮影するか（screenshot）' },
+              clip: { type: 'object', description: '撮影する範囲（screenshot）。x, y, width, height' },
+              format: { type: 'string', description: '画像形式（screenshot: png, jpeg）または用紙サイズ（pdf）' },
+              quality: { type: 'number', description: 'JPEGの品質（screenshot、formatがjpegの場合のみ）' },
+              annotate: { type: 'boolean', description: 'refを描き込むか（screenshot）' },
+              landscape: { type: 'boolean', description: '横向きにするか（pdf）' },
+              print_background: { type: 'boolean', description: '背景を印刷するか（pdf）' },
+              margin: { type: 'object', description: '余白（pdf）。top, right, bottom, left' },
+              header_template: { type: 'string', description: 'ヘッダーのHTMLテンプレート（pdf）' },
+              footer_template: { type: 'string', description: 'フッターのHTMLテンプレート（pdf）' },
+              page_ranges: { type: 'string', description: '出力するページ（pdf）' },
+              output: { type: 'string', enum: ['resource', 'base64'], description: '返却方法（pdf）' },
+              diff: { type: 'boolean', description: '前回との差分のみを返すか（snapshot）' },
+              max_depth: { type: 'number', description: '出力する階層の深さの上限（snapshot）' },
+              wait_until: { type: 'string', enum: WAIT_UNTIL_STATES, description: '読み込み完了とみなすタイミング（navigate, back, forward, reload）' },
+            },
+            required: ['action'],
+          },
+        },
+        on_error: {
+          type: 'string',
+          enum: ['stop', 'continue'],
+          description: 'ステップが失敗した場合の動作（stop: 以降のステップを中止、continue: 続行）',
+          default: 'stop',
+        },
+      },
+      required: ['steps'],
+    },
+  },
+  {
+    name: 'browser_tabs',
+    description: 'セッションのタブを一覧・切り替え・作成・終了します。クリックなどで開かれたポップアップや新しいタブは自動的にタブとして追加され、操作結果のpopupsに表示されます。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        action: {
+          type: 'string',
+          enum: ['list', 'switch', 'open', 'close'],
+          description: '操作（list: 一覧、switch: 切り替え、open: 新しいタブで開く、close: 閉じる）',
+          default: 'list',
+        },
+        tab_id: { type: 'string', description: '対象のタブID（switch, close）' },
+        url: { type: 'string', description: '新しいタブで開くURL（open）' },
+      },
+      required: ['session_id'],
+    },
+  },
+  {
+    name: 'browser_network_requests',
+    description: 'セッションで記録したネットワークリクエスト（ステータスコード、ヘッダー、ボディ）を取得します。キャプチャはstartで有効にするか、browser_openのcapture_networkで有効にします。harを指定するとHAR 1.2形式で出力します。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        action: {
+          type: 'string',
+          enum: ['list', 'har', 'start', 'stop', 'clear'],
+          description: '操作（list: 一覧、har: HAR形式で出力、start: キャプチャ開始、stop: キャプチャ停止、clear: 記録を削除）',
+          default: 'list',
+        },
+        ...NETWORK_CAPTURE_PROPERTIES,
+        failed_only: { type: 'boolean', description: '失敗したリクエスト（ステータス400以上または通信エラー）のみを返すか（list, har）', default: false },
+        include_bodies: { type: 'boolean', description: 'リクエスト・レスポンスのヘッダーとボディを含めるか（list）', default: false },
+        limit: { type: 'number', description: '返す件数の上限（新しいものから、list）', default: 50 },
+      },
+      required: ['session_id'],
+    },
+  },
+  {
+    name: 'browser_console_messages',
+    description: 'セッションの操作中に出力されたコンソールメッセージと、捕捉されなかったJavaScriptエラーを取得します。各メッセージには発生したツール呼び出しが記録されています。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        level: {
+          type: 'string',
+          enum: CONSOLE_LEVELS,
+          description: '取得する最低レベル（debug, info, warning, error）',
+          default: 'info',
+        },
+        limit: { type: 'number', description: '返す件数の上限（新しいものから）', default: 50 },
+        clear: { type: 'boolean', description: '取得後に記録を削除するか', default: false },
+      },
+      required: ['session_id'],
+    },
+  },
+  {
+    name: 'browser_route',
+    description: 'セッションのリクエストにルールを設定します。URLパターンに一致するリクエストに任意のレスポンスを返したり（mock）、リクエストやリソースの種類ごとに読み込みを中止したり（abort）できます。ルールは以降のすべての操作に適用されます。画像やフォントなどをブロックするとページの読み込みが速くなります。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        action: {
+          type: 'string',
+          enum: ['mock', 'abort', 'list', 'remove', 'clear'],
+          description: '操作（mock: レスポンスを差し替え、abort: リクエストを中止、list: 一覧、remove: ルールを削除、clear: すべて削除）',
+          default: 'list',
+        },
+        url_pattern: { type: 'string', description: 'URLのglobパターン（例: **/api/users*）。mockでは必須' },
+        resource_types: {
+          type: 'array',
+          items: { type: 'string', enum: RESOURCE_TYPES },
+          description: '対象とするリソースの種類（例: image, font, media）',
+        },
+        third_party: { type: 'boolean', description: 'ページと異なるサイトへのリクエストのみを対象にするか（トラッカーのブロックなど）' },
+        status: { type: 'number', description: 'レスポンスのステータスコード（mock）', default: 200 },
+        headers: { type: 'object', description: 'レスポンスヘッダー（mock）', additionalProperties: { type: 'string' } },
+        content_type: { type: 'string', description: 'レスポンスのContent-Type（mock）' },
+        body: { type: ['string', 'object', 'array'], description: 'レスポンスボディ（mock）。オブジェクトや配列を指定するとJSONとして返します' },
+        rule_id: { type: 'string', description: '削除するルールのID（remove）' },
+      },
+      required: ['session_id'],
+    },
+  },
+  {
+    name: 'browser_dialog',
+    description: 'alert、confirm、prompt、beforeunloadなどのダイアログへの応答方法を設定します。デフォルトではすべてキャンセルされます。onceを指定すると次の操作（ツール呼び出し1回）にだけ適用されます。表示されたダイアログは各操作の結果のdialogsに表示されます。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        action: {
+          type: 'string',
+          enum: ['accept', 'dismiss'],
+          description: '応答方法（accept: OK、dismiss: キャンセル）',
+        },
+        prompt_text: { type: 'string', description: 'promptダイアログに入力するテキスト（accept）' },
+        once: { type: 'boolean', description: '次の操作にだけ適用するか', default: false },
+      },
+      required: ['session_id', 'action'],
+    },
+  },
+  {
+    name: 'browser_set_emulation',
+    description: 'セッションのデバイス・ロケール・タイムゾーン・カラースキーム・位置情報・権限のエミュレーションを変更します。指定した項目だけが変更され、次の操作から適用されます。resetを指定するとデフォルト（1280x720のデスクトップChrome）に戻してから適用します。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        ...EMULATION_PROPERTIES,
+        reset: { type: 'boolean', description: '既存の設定を破棄してから適用するか', default: false },
+      },
+      required: ['session_id'],
+    },
+  },
+  {
+    name: 'browser_cookies',
+    description: 'セッションのCookieを取得・設定・削除します。domain（サブドメインを含む）とnameで対象を絞り込めます。永続セッションでは起動中のブラウザにも反映されます。',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        session_id: { type: 'string', description: 'セッションID' },
+        action: { type: 'string', enum: ['get', 'set', 'clear'], description: '操作（get: 取得、set: 設定、clear: 削除）', default: 'get' },
+        domain: { type: 'string', description: 'ドメインで絞り込み（get, clear）' },
+        name: { type: 'string', description: 'Cookie名で絞り込み（get, clear）' },
+        cookies: {
+          type: 'array',
+          description: '設定するCookie（set）。同じ名前・ドメイン・パスのCookieは上書きされます',
+          items: {
+            type: 'object',
+            properties: {
+              name: { type: 'string', description: 'Cookie名' },
+              value: { type: 'string', description: '値' },
+              domain: { type: 'string', description: 'ドメイン（省略時はurlまたはセッションのページから決まります）' },
+              path: { type: 'string', description: 'パス', default: '/' },
+              url: { type: 'string', description: 'domainの代わりに指定するURL' },
+              expires: { type: 'number', description: '有効期限（Unix時間、秒）。省略するとセッションCookieになります' },
+              http_only: { type: 'boolean', description: 'HttpOnly属性' },
+              secure: { type: 'boolean', description: 'Secure属性' },
+              same_site: { type: 'string', enum: SAME_SITE_VALUES, description: 'SameSite属性' },
+            },
+            required: ['name', 'value'],
+          },
+        },
+      },
+      required: ['session_id'],
+    },
+  },
+  {
+    name: 'browser_storage_state',
+    description: 'セッションのCookieとlocalStorageを、PlaywrightのstorageState形式（{cookies, origins}）で書き出し・読み込みします。テストのフィクスチャなどで保存したログイン状態からセッションを始められます。session_idを指定せずにimportすると新しいセッションが作成されます。',
     inputSchema: {
       type: 'object',
       properties: {
-        session_id: { type: 'string', description: 'セッションID' },
-        url: { type: 'string', description: '操作対象のURL（session_idがない場合に使用）' },
-        key: { type: 'string', description: 'キー名（例: Enter, Tab, ArrowDown, Escape）' },
+        action: { type: 'string', enum: ['export', 'import'], description: '操作（export: 書き出し、import: 読み込み）' },
+        session_id: { type: 'string', description: 'セッションID（exportでは必須、importで省略すると新しいセッションを作成）' },
+        storage_state: {
+          type: ['object', 'string'],
+          description: '読み込むstorageState（import）。オブジェクトまたはJSON文字列。localStorageはオリジンごとに保持され、ページには同じオリジンのものだけが復元されます',
+        },
       },
-      required: ['key'],
+      required: ['action'],
     },
   },
   {
@@ -362,8 +4156,23 @@ const tools: Tool[] = [
   },
 ]
 
+const EVALUATE_DISABLED_MESSAGE =
+  'browser_evaluate is disabled. Set BROWSER_EVALUATE_ENABLED=true, and include the auth token in BROWSER_EVALUATE_TOKENS if that is set'
+
+type ToolContent = {
+  type: string
+  text?: string
+  data?: string
+  mimeType?: string
+  resource?: { uri: string; mimeType: string; blob: string }
+}
+
 // Tool execution handler
-async function executeTool(name: string, args: Record<string, unknown> | undefined): Promise<{ content: Array<{ type: string; text?: string; data?: string; mimeType?: string }>; isError?: boolean }> {
+async function executeTool(
+  name: string,
+  args: Record<string, unknown> | undefined,
+  authToken: string | null = null
+): Promise<{ content: ToolContent[]; isError?: boolean }> {
   let browser: Browser | null = null
   
   try {
@@ -375,22 +4184,78 @@ async function executeTool(name: string, args: Record<string, unknown> | undefin
         const existingSessionId = args?.session_id as string | undefined
         const basicAuth = args?.basic_auth as { username: string; password: string } | undefined
         let session = existingSessionId ? await getSession(existingSessionId) : null
+        const persistent = (args?.persistent as boolean | undefined) ?? session?.persistent ?? false
         
         // Use credentials from parameter or existing session
         const httpCredentials = basicAuth || session?.httpCredentials
+        const emulation = args?.emulation
+          ? parseEmulationProfile(args.emulation as Record<string, unknown>)
+          : session?.emulation
         
-        browser = await launchBrowser()
-        const { context, page } = await setupPage(browser, session, httpCredentials)
+        const sessionId = existingSessionId || randomUUID()
+        // openSessionPage claims the persistent browser for existing sessions only
+        if (persistent && !session) {
+          await claimPersistentEndpoint(sessionId)
+        }
         
-        await page.goto(url, { waitUntil: 'networkidle', timeout: 30000 })
+        // New Basic auth credentials need a fresh page rather than the live one
+        const opened = await openSessionPage(
+          session && basicAuth ? { ...session, remote: undefined } : session,
+          httpCredentials,
+          undefined,
+          persistent,
+          emulation
+        )
+        browser = opened.browser
+        const { context, page } = opened
+        
+        const networkCapture = args?.capture_network
+          ? parseNetworkCaptureConfig(args.capture_network as Record<string, unknown>)
+          : session?.networkCapture
+        const collectNetwork = networkCapture ? captureNetwork(page, networkCapture) : undefined
+        const consoleCapture: ConsoleCapture = { tool: name, entries: [] }
+        captureConsole(page, consoleCapture)
+        const dialogCapture: DialogCapture = { policy: session?.nextDialog ?? session?.dialogPolicy ?? DEFAULT_DIALOG_POLICY, entries: [] }
+        handleDialogs(page, dialogCapture)
+        
+        const waitUntil = (args?.wait_until as WaitUntil | undefined) ?? 'networkidle'
+        if (!WAIT_UNTIL_STATES.includes(waitUntil)) {
+          throw new Error(`wait_until must be one of: ${WAIT_UNTIL_STATES.join(', ')}`)
+        }
+        await page.goto(url, { waitUntil, timeout: 30000 })
         
-        const sessionId = existingSessionId || randomUUID()
         const newSession = await extractSessionData(context, page, sessionId, undefined, httpCredentials)
+        newSession.localStorage = mergeLocalStorage(session?.localStorage, page.url(), newSession.localStorage)
+        if (persistent) {
+          newSession.persistent = true
+          newSession.remote = await keepRemoteAlive(page)
+        }
+        // The page opens in the active tab; other tabs of the session are kept
+        newSession.activeTabId = session?.activeTabId ?? 't1'
+        newSession.tabs = await updateActiveTab(session?.tabs ?? [], newSession.activeTabId, page, newSession.remote?.targetId)
+        newSession.history = pushHistory(session?.history ?? { entries: [], index: -1 }, page.url())
+        if (networkCapture) {
+          newSession.networkCapture = networkCapture
+        }
+        if (collectNetwork) {
+          await appendLog('network', sessionId, await collectNetwork(), MAX_NETWORK_ENTRIES)
+        }
+        await appendLog('console', sessionId, consoleCapture.entries, MAX_CONSOLE_ENTRIES)
+        if (session?.routes) {
+          newSession.routes = session.routes
+        }
+        if (session?.dialogPolicy) {
+          newSession.dialogPolicy = session.dialogPolicy
+        }
+        if (emulation) {
+          newSession.emulation = emulation
+        }
         await saveSession(newSession)
         
         // Capture data before closing browser
         const pageUrl = page.url()
         const pageTitle = await page.title()
+        const errors = consoleErrors(consoleCapture.entries)
         
         await browser.close()
         
@@ -402,408 +4267,610 @@ async function executeTool(name: string, args: Record<string, unknown> | undefin
               session_id: sessionId,
               url: pageUrl,
               title: pageTitle,
+              ...(errors.length > 0 ? { console_errors: errors } : {}),
+              ...(dialogCapture.entries.length > 0 ? { dialogs: describeDialogs(dialogCapture.entries) } : {}),
+              ...(persistent ? { persistent: true, restored_from: opened.reattached ? 'live_browser' : 'storage' } : {}),
               message: existingSessionId ? 'セッションを復元してページを開きました' : '新しいセッションでページを開きました',
             }, null, 2),
           }],
         }
       }
       
-      case 'browser_snapshot': {
+      case 'browser_snapshot':
+      case 'browser_click':
+      case 'browser_fill':
+      case 'browser_type':
+      case 'browser_get_text':
+      case 'browser_screenshot':
+      case 'browser_wait':
+      case 'browser_press_key':
+      case 'browser_navigate':
+      case 'browser_back':
+      case 'browser_forward':
+      case 'browser_reload':
+      case 'browser_upload_file':
+      case 'browser_hover':
+      case 'browser_select_option':
+      case 'browser_check':
+      case 'browser_uncheck':
+      case 'browser_drag':
+      case 'browser_scroll':
+      case 'browser_click_at':
+      case 'browser_evaluate':
+      case 'browser_pdf':
+      case 'browser_extract':
+      case 'browser_get_form':
+      case 'browser_fill_form': {
+        const action = name.slice('browser_'.length)
+        if (action === 'evaluate' && !canEvaluate(authToken)) throw new Error(EVALUATE_DISABLED_MESSAGE)
         const sessionId = args?.session_id as string | undefined
         const url = args?.url as string | undefined
         
-        if (!sessionId && !url) throw new Error('session_id or url is required')
+        validateStep(action, args ?? {})
+        if (NAVIGATION_ACTIONS.includes(action)) {
+          if (!sessionId) throw new Error('session_id is required')
+        } else if (!sessionId && !url) {
+          throw new Error('session_id or url is required')
+        }
         
         let session = sessionId ? await getSession(sessionId) : null
-        const targetUrl = url || session?.url
+        // Navigation tools start from the session's page; their url is the destination
+        const navigation = NAVIGATION_ACTIONS.includes(action)
+        const targetUrl = (navigation ? undefined : url) || session?.url
         if (!targetUrl) throw new Error('No URL available')
         
-        browser = await launchBrowser()
-        const { context, page } = await setupPage(browser, session, session?.httpCredentials)
-        
-        await page.goto(targetUrl, { waitUntil: 'networkidle', timeout: 30000 })
+        // Navigation leaves the session's page, so only cookies and localStorage are restored:
+        // loading the page and replaying its journal first would only repeat side effects
+        const opened = await openSessionPage(session, session?.httpCredentials, navigation ? undefined : targetUrl)
+        browser = opened.browser
+        const { context, page } = opened
         
-        const { snapshot, refs } = await getAccessibilitySnapshot(page)
+        const state = createStepState(session, page, name)
+        // A live persistent page is reloaded in place; otherwise the page was not loaded, and reloading it is loading it
+        const { result, image, resource } = action === 'reload' && !opened.reattached
+          ? await runStep(page, state, 'navigate', { ...args, url: targetUrl })
+          : await runStep(page, state, action, args ?? {})
         
         const newSessionId = sessionId || randomUUID()
-        const newSession = await extractSessionData(context, page, newSessionId, refs, session?.httpCredentials)
-        newSession.lastSnapshot = snapshot
-        await saveSession(newSession)
-        
-        const pageUrl = page.url()
+        await saveStepState(context, page, newSessionId, state, session?.httpCredentials)
         
         await browser.close()
         
-        return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({
-              success: true,
-              session_id: newSessionId,
-              url: pageUrl,
-              snapshot,
-              refs: Object.fromEntries(
-                Object.entries(refs).map(([k, v]) => [k, { role: v.role, name: v.name }])
-              ),
-            }, null, 2),
-          }],
+        const content: ToolContent[] = [{
+          type: 'text',
+          text: JSON.stringify({
+            success: true,
+            session_id: newSessionId,
+            ...result,
+            ...(session?.persistent ? { restored_from: opened.reattached ? 'live_browser' : 'storage' } : {}),
+          }, null, 2),
+        }]
+        if (image) {
+          content.push({ type: 'image', ...image })
+        }
+        if (resource) {
+          content.push({ type: 'resource', resource })
         }
+        
+        return { content }
       }
       
-      case 'browser_click': {
+      case 'browser_run_steps': {
         const sessionId = args?.session_id as string | undefined
         const url = args?.url as string | undefined
-        const ref = args?.ref as string | undefined
-        const selector = args?.selector as string | undefined
+        const steps = args?.steps as Array<Record<string, unknown>> | undefined
+        const onError = (args?.on_error as string | undefined) ?? 'stop'
         
-        if (!sessionId && !url) throw new Error('session_id or url is required')
-        if (!ref && !selector) throw new Error('ref or selector is required')
+        if (!Array.isArray(steps) || steps.length === 0) throw new Error('steps is required')
+        if (onError !== 'stop' && onError !== 'continue') throw new Error('on_error must be "stop" or "continue"')
+        if (steps.some(step => step?.action === 'evaluate') && !canEvaluate(authToken)) {
+          throw new Error(EVALUATE_DISABLED_MESSAGE)
+        }
+        steps.forEach((step, index) => {
+          try {
+            validateStep(step?.action as string, step ?? {})
+          } catch (error) {
+            throw new Error(`steps[${index}]: ${error instanceof Error ? error.message : String(error)}`)
+          }
+        })
         
         let session = sessionId ? await getSession(sessionId) : null
         const targetUrl = url || session?.url
-        if (!targetUrl) throw new Error('No URL available')
+        if (!targetUrl && steps[0].action !== 'open') {
+          throw new Error('session_id or url is required unless the first step is "open"')
+        }
         
-        browser = await launchBrowser()
-        const { context, page } = await setupPage(browser, session, session?.httpCredentials)
+        const opened = await openSessionPage(session, session?.httpCredentials, targetUrl)
+        browser = opened.browser
+        const { context, page } = opened
         
-        await page.goto(targetUrl, { waitUntil: 'networkidle', timeout: 30000 })
+        const state = createStepState(session, page, name)
+        const results: Array<Record<string, unknown>> = []
+        const attachments: ToolContent[] = []
         
-        let targetSelector = selector
-        if (ref && session?.refs) {
-          const refKey = ref.startsWith('@') ? ref.slice(1) : ref
-          const refData = session.refs[refKey]
-          if (refData) {
-            targetSelector = refData.selector
+        for (const [index, step] of steps.entries()) {
+          const action = step.action as string
+          state.console.tool = `browser_run_steps[${index}] ${action}`
+          try {
+            const { result, image, resource } = await runStep(page, state, action, step)
+            if (image) {
+              attachments.push({ type: 'image', ...image })
+              result.image_index = attachments.length - 1
+            }
+            if (resource) {
+              attachments.push({ type: 'resource', resource })
+              result.resource_index = attachments.length - 1
+            }
+            results.push({ index, action, success: true, ...result })
+          } catch (error) {
+            const message = error instanceof Error ? error.message : String(error)
+            results.push({ index, action, success: false, error: message })
+            if (onError === 'stop') break
           }
         }
         
-        if (!targetSelector) throw new Error('Could not resolve selector')
-        
-        await page.locator(targetSelector).click({ timeout: 10000 })
-        await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {})
-        
+        // Session state is saved once, after all steps have run
         const newSessionId = sessionId || randomUUID()
-        const newSession = await extractSessionData(context, page, newSessionId, undefined, session?.httpCredentials)
-        await saveSession(newSession)
+        await saveStepState(context, page, newSessionId, state, session?.httpCredentials)
         
         const pageUrl = page.url()
         
         await browser.close()
         
+        const failed = results.filter(r => !r.success).length
+        
         return {
-          content: [{
-            type: 'text',
-            text: JSON.stringify({
-              success: true,
-              session_id: newSessionId,
-              url: pageUrl,
-              message: `クリックしました: ${ref || selector}`,
-            }, null, 2),
-          }],
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                success: failed === 0,
+                session_id: newSessionId,
+                url: pageUrl,
+                completed: results.length - failed,
+                failed,
+                skipped: steps.length - results.length,
+                ...(session?.persistent ? { restored_from: opened.reattached ? 'live_browser' : 'storage' } : {}),
+                steps: results,
+              }, null, 2),
+            },
+            ...attachments,
+          ],
         }
       }
       
-      case 'browser_fill': {
-        const sessionId = args?.session_id as string | undefined
-        const url = args?.url as string | undefined
-        const ref = args?.ref as string | undefined
-        const selector = args?.selector as string | undefined
-        const value = args?.value as string
-        
-        if (!value) throw new Error('value is required')
-        if (!sessionId && !url) throw new Error('session_id or url is required')
-        if (!ref && !selector) throw new Error('ref or selector is required')
-        
-        let session = sessionId ? await getSession(sessionId) : null
-        const targetUrl = url || session?.url
-        if (!targetUrl) throw new Error('No URL available')
+      case 'browser_tabs': {
+        const sessionId = args?.session_id as string
+        const action = (args?.action as string | undefined) ?? 'list'
+        const tabId = args?.tab_id as string | undefined
         
-        browser = await launchBrowser()
-        const { context, page } = await setupPage(browser, session, session?.httpCredentials)
+        if (!sessionId) throw new Error('session_id is required')
+        if ((action === 'switch' || action === 'close') && !tabId) throw new Error('tab_id is required')
+        if (action === 'open' && !args?.url) throw new Error('url is required')
         
-        await page.goto(targetUrl, { waitUntil: 'networkidle', timeout: 30000 })
+        let session = await getSession(sessionId)
+        if (!session) throw new Error(`Session ${sessionId} not found`)
+        session.tabs ??= [{ id: 't1', url: session.url, title: '' }]
+        session.activeTabId ??= 't1'
         
-        let targetSelector = selector
-        if (ref && session?.refs) {
-          const refKey = ref.startsWith('@') ? ref.slice(1) : ref
-          const refData = session.refs[refKey]
-          if (refData) {
-            targetSelector = refData.selector
+        let message: string
+        switch (action) {
+          case 'list':
+            message = `${session.tabs.length}個のタブがあります`
+            break
+          
+          case 'switch': {
+            if (!session.tabs.some(tab => tab.id === tabId)) throw new Error(`Unknown tab: ${tabId}`)
+            session = activateTab(session, tabId!)
+            await saveSession(session)
+            message = `タブ ${tabId} に切り替えました`
+            break
           }
+          
+          case 'open': {
+            const url = args?.url as string
+            const newTabId = nextTabId(session.tabs)
+            session.tabs.push({ id: newTabId, url, title: '' })
+            session = activateTab(session, newTabId)
+            
+            // A new tab needs a new page, even in a persistent session
+            const opened = await openSessionPage({ ...session, remote: undefined }, session.httpCredentials, url)
+            browser = opened.browser
+            const state = createStepState(session, opened.page, name)
+            session = await saveStepState(opened.context, opened.page, sessionId, state, session.httpCredentials)
+            
+            await browser.close()
+            message = `新しいタブ ${newTabId} を開きました`
+            break
+          }
+          
+          case 'close': {
+            const tab = session.tabs.find(t => t.id === tabId)
+            if (!tab) throw new Error(`Unknown tab: ${tabId}`)
+            if (session.tabs.length === 1) throw new Error('Cannot close the last tab; use browser_close to end the session')
+            
+            // Close the live page so the remote browser does not keep it open
+            if (session.remote && tab.targetId) {
+              const attached = await attachRemotePage({ endpoint: session.remote.endpoint, targetId: tab.targetId })
+              if (attached) {
+                await attached.page.close().catch(() => {})
+                await attached.browser.close().catch(() => {})
+              }
+            }
+            
+            if (session.activeTabId === tabId) {
+              const remaining = session.tabs.filter(t => t.id !== tabId)
+              session = activateTab(session, remaining[remaining.length - 1].id)
+            }
+            session.tabs = session.tabs!.filter(t => t.id !== tabId)
+            await saveSession(session)
+            message = `タブ ${tabId} を閉じました`
+            break
+          }
+          
+          default:
+            throw new Error(`Unknown tabs action: ${action} (expected list, switch, open, or close)`)
         }
         
-        if (!targetSelector) throw new Error('Could not resolve selector')
-        
-        await page.locator(targetSelector).fill(value, { timeout: 10000 })
-        
-        const newSessionId = sessionId || randomUUID()
-        const newSession = await extractSessionData(context, page, newSessionId, undefined, session?.httpCredentials)
-        await saveSession(newSession)
-        
-        const pageUrl = page.url()
-        
-        await browser.close()
-        
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              session_id: newSessionId,
-              url: pageUrl,
-              message: `入力しました: ${ref || selector}`,
+              session_id: sessionId,
+              url: session.url,
+              active_tab_id: session.activeTabId,
+              tabs: (session.tabs ?? []).map(tab => ({
+                tab_id: tab.id,
+                url: tab.url,
+                title: tab.title,
+                active: tab.id === session!.activeTabId,
+              })),
+              message,
             }, null, 2),
           }],
         }
       }
       
-      case 'browser_type': {
-        const sessionId = args?.session_id as string | undefined
-        const url = args?.url as string | undefined
-        const ref = args?.ref as string | undefined
-        const selector = args?.selector as string | undefined
-        const text = args?.text as string
-        const submit = args?.submit as boolean
-        
-        if (!text) throw new Error('text is required')
-        if (!sessionId && !url) throw new Error('session_id or url is required')
-        if (!ref && !selector) throw new Error('ref or selector is required')
-        
-        let session = sessionId ? await getSession(sessionId) : null
-        const targetUrl = url || session?.url
-        if (!targetUrl) throw new Error('No URL available')
+      case 'browser_network_requests': {
+        const sessionId = args?.session_id as string
+        const action = (args?.action as string | undefined) ?? 'list'
+        if (!sessionId) throw new Error('session_id is required')
         
-        browser = await launchBrowser()
-        const { context, page } = await setupPage(browser, session, session?.httpCredentials)
+        const session = await getSession(sessionId)
+        if (!session) throw new Error(`Session ${sessionId} not found`)
         
-        await page.goto(targetUrl, { waitUntil: 'networkidle', timeout: 30000 })
+        const respond = (result: Record<string, unknown>) => ({
+          content: [{
+            type: 'text',
+            text: JSON.stringify({ success: true, session_id: sessionId, ...result }, null, 2),
+          }],
+        })
         
-        let targetSelector = selector
-        if (ref && session?.refs) {
-          const refKey = ref.startsWith('@') ? ref.slice(1) : ref
-          const refData = session.refs[refKey]
-          if (refData) {
-            targetSelector = refData.selector
+        switch (action) {
+          case 'start':
+            session.networkCapture = parseNetworkCaptureConfig(args ?? {})
+            await saveSession(session)
+            return respond({ capturing: true, message: 'ネットワークキャプチャを開始しました。以降の操作で発生したリクエストが記録されます' })
+          
+          case 'stop':
+            delete session.networkCapture
+            await saveSession(session)
+            return respond({ capturing: false, message: 'ネットワークキャプチャを停止しました' })
+          
+          case 'clear':
+            await deleteLog('network', sessionId)
+            return respond({ capturing: !!session.networkCapture, message: '記録したリクエストを削除しました' })
+          
+          case 'har':
+            return {
+              content: [{
+                type: 'text',
+                text: JSON.stringify(toHar(filterNetworkEntries(await getLog<NetworkEntry>('network', sessionId), args ?? {})), null, 2),
+              }],
+            }
+          
+          case 'list': {
+            const includeBodies = (args?.include_bodies as boolean | undefined) ?? false
+            const limit = (args?.limit as number | undefined) ?? 50
+            const log = await getLog<NetworkEntry>('network', sessionId)
+            const matched = filterNetworkEntries(log, args ?? {})
+            const requests = matched.slice(-limit).map(({ requestHeaders, responseHeaders, requestBody, responseBody, ...entry }) => ({
+              ...entry,
+              ...(includeBodies ? { requestHeaders, responseHeaders, requestBody, responseBody } : {}),
+            }))
+            return respond({
+              capturing: !!session.networkCapture,
+              total: matched.length,
+              returned: requests.length,
+              requests,
+              ...(session.networkCapture || log.length > 0 ? {} : { message: 'ネットワークキャプチャが有効になっていません。action: "start" で開始してください' }),
+            })
           }
+          
+          default:
+            throw new Error(`Unknown network action: ${action} (expected list, har, start, stop, or clear)`)
         }
+      }
+      
+      case 'browser_console_messages': {
+        const sessionId = args?.session_id as string
+        const level = (args?.level as string | undefined) ?? 'info'
+        const limit = (args?.limit as number | undefined) ?? 50
+        if (!sessionId) throw new Error('session_id is required')
+        if (!CONSOLE_LEVELS.includes(level)) throw new Error(`level must be one of: ${CONSOLE_LEVELS.join(', ')}`)
         
-        if (!targetSelector) throw new Error('Could not resolve selector')
+        const session = await getSession(sessionId)
+        if (!session) throw new Error(`Session ${sessionId} not found`)
         
-        await page.locator(targetSelector).click({ timeout: 10000 })
-        await page.keyboard.type(text, { delay: 50 })
+        const log = await getLog<ConsoleEntry>('console', sessionId)
+        const matched = log.filter(entry => consoleSeverity(entry.level) >= consoleSeverity(level))
+        const messages = matched.slice(-limit)
         
-        if (submit) {
-          await page.keyboard.press('Enter')
-          await page.waitForLoadState('networkidle', { timeout: 10000 }).catch(() => {})
+        if (args?.clear) {
+          await deleteLog('console', sessionId)
         }
         
-        const newSessionId = sessionId || randomUUID()
-        const newSession = await extractSessionData(context, page, newSessionId, undefined, session?.httpCredentials)
-        await saveSession(newSession)
-        
-        const pageUrl = page.url()
-        
-        await browser.close()
-        
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              session_id: newSessionId,
-              url: pageUrl,
-              message: `タイプしました: ${text}${submit ? ' (送信済み)' : ''}`,
+              session_id: sessionId,
+              total: matched.length,
+              returned: messages.length,
+              messages,
             }, null, 2),
           }],
         }
       }
       
-      case 'browser_get_text': {
-        const sessionId = args?.session_id as string | undefined
-        const url = args?.url as string | undefined
-        const ref = args?.ref as string | undefined
-        const selector = args?.selector as string | undefined
-        
-        if (!sessionId && !url) throw new Error('session_id or url is required')
-        if (!ref && !selector) throw new Error('ref or selector is required')
-        
-        let session = sessionId ? await getSession(sessionId) : null
-        const targetUrl = url || session?.url
-        if (!targetUrl) throw new Error('No URL available')
-        
-        browser = await launchBrowser()
-        const { context, page } = await setupPage(browser, session, session?.httpCredentials)
+      case 'browser_route': {
+        const sessionId = args?.session_id as string
+        const action = (args?.action as string | undefined) ?? 'list'
+        if (!sessionId) throw new Error('session_id is required')
         
-        await page.goto(targetUrl, { waitUntil: 'networkidle', timeout: 30000 })
+        const session = await getSession(sessionId)
+        if (!session) throw new Error(`Session ${sessionId} not found`)
+        const rules = session.routes ?? []
         
-        let targetSelector = selector
-        if (ref && session?.refs) {
-          const refKey = ref.startsWith('@') ? ref.slice(1) : ref
-          const refData = session.refs[refKey]
-          if (refData) {
-            targetSelector = refData.selector
+        let message: string
+        switch (action) {
+          case 'list':
+            message = `${rules.length}個のルールが設定されています`
+            break
+          
+          case 'mock':
+          case 'abort': {
+            const rule = parseRouteRule(action, args ?? {}, rules)
+            session.routes = [...rules, rule]
+            await saveSession(session)
+            message = `ルール ${rule.id} を追加しました。次の操作から適用されます`
+            break
+          }
+          
+          case 'remove': {
+            const ruleId = args?.rule_id as string | undefined
+            if (!ruleId) throw new Error('rule_id is required')
+            if (!rules.some(rule => rule.id === ruleId)) throw new Error(`Unknown rule: ${ruleId}`)
+            session.routes = rules.filter(rule => rule.id !== ruleId)
+            await saveSession(session)
+            message = `ルール ${ruleId} を削除しました`
+            break
           }
+          
+          case 'clear':
+            session.routes = []
+            await saveSession(session)
+            message = 'すべてのルールを削除しました'
+            break
+          
+          default:
+            throw new Error(`Unknown route action: ${action} (expected mock, abort, list, remove, or clear)`)
         }
         
-        if (!targetSelector) throw new Error('Could not resolve selector')
-        
-        const text = await page.locator(targetSelector).textContent({ timeout: 10000 })
-        
-        const newSessionId = sessionId || randomUUID()
-        const newSession = await extractSessionData(context, page, newSessionId, undefined, session?.httpCredentials)
-        await saveSession(newSession)
-        
-        await browser.close()
-        
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              session_id: newSessionId,
-              text: text || '',
+              session_id: sessionId,
+              routes: session.routes ?? [],
+              message,
             }, null, 2),
           }],
         }
       }
       
-      case 'browser_screenshot': {
-        const sessionId = args?.session_id as string | undefined
-        const url = args?.url as string | undefined
-        const fullPage = args?.full_page as boolean
-        
-        if (!sessionId && !url) throw new Error('session_id or url is required')
-        
-        let session = sessionId ? await getSession(sessionId) : null
-        const targetUrl = url || session?.url
-        if (!targetUrl) throw new Error('No URL available')
-        
-        browser = await launchBrowser()
-        const { context, page } = await setupPage(browser, session, session?.httpCredentials)
-        
-        await page.goto(targetUrl, { waitUntil: 'networkidle', timeout: 30000 })
-        
-        const screenshot = await page.screenshot({
-          fullPage: fullPage || false,
-          type: 'jpeg',
-          quality: 80,
-        })
-        
-        const newSessionId = sessionId || randomUUID()
-        const newSession = await extractSessionData(context, page, newSessionId, undefined, session?.httpCredentials)
-        await saveSession(newSession)
+      case 'browser_dialog': {
+        const sessionId = args?.session_id as string
+        if (!sessionId) throw new Error('session_id is required')
+        const policy = parseDialogPolicy(args ?? {})
+        const once = (args?.once as boolean | undefined) ?? false
         
-        const pageUrl = page.url()
+        const session = await getSession(sessionId)
+        if (!session) throw new Error(`Session ${sessionId} not found`)
         
-        await browser.close()
+        if (once) {
+          session.nextDialog = policy
+        } else {
+          session.dialogPolicy = policy
+        }
+        await saveSession(session)
         
         return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                session_id: newSessionId,
-                url: pageUrl,
-              }, null, 2),
-            },
-            {
-              type: 'image',
-              data: screenshot.toString('base64'),
-              mimeType: 'image/jpeg',
-            },
-          ],
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              session_id: sessionId,
+              dialog_policy: session.dialogPolicy ?? DEFAULT_DIALOG_POLICY,
+              ...(session.nextDialog ? { next_dialog: session.nextDialog } : {}),
+              message: once ? '次の操作でのダイアログへの応答を設定しました' : 'ダイアログへの応答方法を設定しました',
+            }, null, 2),
+          }],
         }
       }
       
-      case 'browser_wait': {
-        const sessionId = args?.session_id as string | undefined
-        const url = args?.url as string | undefined
-        const time = args?.time as number | undefined
-        const text = args?.text as string | undefined
-        const selector = args?.selector as string | undefined
-        
-        if (!sessionId && !url) throw new Error('session_id or url is required')
-        if (!time && !text && !selector) throw new Error('time, text, or selector is required')
-        
-        let session = sessionId ? await getSession(sessionId) : null
-        const targetUrl = url || session?.url
-        if (!targetUrl) throw new Error('No URL available')
-        
-        browser = await launchBrowser()
-        const { context, page } = await setupPage(browser, session, session?.httpCredentials)
+      case 'browser_set_emulation': {
+        const sessionId = args?.session_id as string
+        if (!sessionId) throw new Error('session_id is required')
+        const changes = parseEmulationProfile(args ?? {})
+        const reset = (args?.reset as boolean | undefined) ?? false
         
-        await page.goto(targetUrl, { waitUntil: 'networkidle', timeout: 30000 })
+        const session = await getSession(sessionId)
+        if (!session) throw new Error(`Session ${sessionId} not found`)
         
-        let waitResult = ''
-        if (time) {
-          await page.waitForTimeout(time * 1000)
-          waitResult = `${time}秒待機しました`
-        } else if (text) {
-          await page.waitForSelector(`text=${text}`, { timeout: 30000 })
-          waitResult = `テキスト "${text}" が出現しました`
-        } else if (selector) {
-          await page.waitForSelector(selector, { timeout: 30000 })
-          waitResult = `要素 "${selector}" が出現しました`
+        let base: EmulationProfile = reset ? {} : { ...session.emulation }
+        if (changes.device) {
+          // A new device replaces the custom device settings made on top of the previous one
+          const { viewport, deviceScaleFactor, isMobile, hasTouch, userAgent, ...rest } = base
+          base = rest
         }
-        
-        const newSessionId = sessionId || randomUUID()
-        const newSession = await extractSessionData(context, page, newSessionId, undefined, session?.httpCredentials)
-        await saveSession(newSession)
-        
-        const pageUrl = page.url()
-        
-        await browser.close()
+        const emulation: EmulationProfile = { ...base, ...changes }
+        if (Object.keys(emulation).length > 0) {
+          session.emulation = emulation
+        } else {
+          delete session.emulation
+        }
+        await saveSession(session)
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              session_id: newSessionId,
-              url: pageUrl,
-              message: waitResult,
+              session_id: sessionId,
+              emulation: describeEmulation(session.emulation),
+              message: 'エミュレーションの設定を変更しました。次の操作から適用されます',
             }, null, 2),
           }],
         }
       }
       
-      case 'browser_press_key': {
-        const sessionId = args?.session_id as string | undefined
-        const url = args?.url as string | undefined
-        const key = args?.key as string
+      case 'browser_cookies': {
+        const sessionId = args?.session_id as string
+        if (!sessionId) throw new Error('session_id is required')
+        const action = (args?.action as string | undefined) ?? 'get'
+        const domain = args?.domain as string | undefined
+        const cookieName = args?.name as string | undefined
         
-        if (!key) throw new Error('key is required')
-        if (!sessionId && !url) throw new Error('session_id or url is required')
+        const session = await getSession(sessionId)
+        if (!session) throw new Error(`Session ${sessionId} not found`)
         
-        let session = sessionId ? await getSession(sessionId) : null
-        const targetUrl = url || session?.url
-        if (!targetUrl) throw new Error('No URL available')
+        let result: Record<string, unknown>
+        switch (action) {
+          case 'get': {
+            const cookies = session.cookies.filter(cookie => matchesCookie(cookie, domain, cookieName))
+            result = { count: cookies.length, cookies }
+            break
+          }
+          case 'set': {
+            const inputs = args?.cookies as Record<string, unknown>[] | undefined
+            if (!Array.isArray(inputs) || inputs.length === 0) throw new Error('cookies is required for set')
+            const cookies = inputs.map(input => parseCookie(input, session.url))
+            session.cookies = mergeCookies(session.cookies, cookies)
+            await updateRemoteContext(session, context => context.addCookies(cookies))
+            result = { set: cookies.length, cookies }
+            break
+          }
+          case 'clear': {
+            const removed = session.cookies.filter(cookie => matchesCookie(cookie, domain, cookieName))
+            session.cookies = session.cookies.filter(cookie => !removed.includes(cookie))
+            await updateRemoteContext(session, async context => {
+              for (const cookie of removed) {
+                await context.clearCookies({ name: cookie.name, domain: cookie.domain, path: cookie.path })
+              }
+            })
+            result = { cleared: removed.length }
+            break
+          }
+          default:
+            throw new Error('action must be one of: get, set, clear')
+        }
         
-        browser = await launchBrowser()
-        const { context, page } = await setupPage(browser, session, session?.httpCredentials)
+        if (action !== 'get') {
+          await saveSession(session)
+        }
         
-        await page.goto(targetUrl, { waitUntil: 'networkidle', timeout: 30000 })
+        return {
+          content: [{
+            type: 'text',
+            text: JSON.stringify({
+              success: true,
+              session_id: sessionId,
+              ...result,
+            }, null, 2),
+          }],
+        }
+      }
+      
+      case 'browser_storage_state': {
+        const action = args?.action as string | undefined
+        let sessionId = args?.session_id as string | undefined
         
-        await page.keyboard.press(key)
-        await page.waitForLoadState('networkidle', { timeout: 5000 }).catch(() => {})
+        if (action === 'export') {
+          if (!sessionId) throw new Error('session_id is required')
+          const session = await getSession(sessionId)
+          if (!session) throw new Error(`Session ${sessionId} not found`)
+          
+          return {
+            content: [{
+              type: 'text',
+              text: JSON.stringify({
+                success: true,
+                session_id: sessionId,
+                storage_state: toStorageState(session),
+              }, null, 2),
+            }],
+          }
+        }
         
-        const newSessionId = sessionId || randomUUID()
-        const newSession = await extractSessionData(context, page, newSessionId, undefined, session?.httpCredentials)
-        await saveSession(newSession)
+        if (action !== 'import') throw new Error('action must be one of: export, import')
+        if (args?.storage_state === undefined) throw new Error('storage_state is required for import')
         
-        const pageUrl = page.url()
+        let session = sessionId ? await getSession(sessionId) : null
+        if (sessionId && !session) throw new Error(`Session ${sessionId} not found`)
+        const imported = parseStorageState(args.storage_state)
         
-        await browser.close()
+        if (session) {
+          // The live page still holds the old state, so the next call restores from the imported one
+          if (session.remote) {
+            const attached = await attachRemotePage(session.remote)
+            if (attached) {
+              browser = attached.browser
+              await attached.page.close().catch(() => {})
+            }
+            delete session.remote
+          }
+          session.cookies = imported.cookies
+          session.localStorage = imported.localStorage
+        } else {
+          // A new session starts on the first origin with localStorage; browser_open navigates from there
+          sessionId = randomUUID()
+          session = {
+            id: sessionId,
+            url: Object.keys(imported.localStorage)[0] ?? 'about:blank',
+            cookies: imported.cookies,
+            localStorage: imported.localStorage,
+            createdAt: Date.now(),
+            updatedAt: Date.now(),
+          }
+        }
+        await saveSession(session)
         
         return {
           content: [{
             type: 'text',
             text: JSON.stringify({
               success: true,
-              session_id: newSessionId,
-              url: pageUrl,
-              message: `キー "${key}" を押しました`,
+              session_id: sessionId,
+              cookies: imported.cookies.length,
+              local_storage_origins: Object.keys(imported.localStorage),
+              local_storage_items: Object.values(imported.localStorage).reduce((total, items) => total + Object.keys(items).length, 0),
+              message: args?.session_id
+                ? 'ストレージの状態をセッションに読み込みました。次の操作から適用されます'
+                : '新しいセッションにストレージの状態を読み込みました。browser_openにsession_idを指定してページを開いてください',
             }, null, 2),
           }],
         }
@@ -813,6 +4880,25 @@ async function executeTool(name: string, args: Record<string, unknown> | undefin
         const sessionId = args?.session_id as string
         if (!sessionId) throw new Error('session_id is required')
         
+        // Close the live page so the remote browser does not keep it open
+        const session = await getSession(sessionId)
+        if (session?.remote) {
+          const attached = await attachRemotePage(session.remote)
+          if (attached) {
+            browser = attached.browser
+            await attached.page.close().catch(() => {})
+            // A shared browser keeps its default context, so do not leave the session's cookies in it
+            if (endpointLeaseKey()) {
+              await attached.context.clearCookies().catch(() => {})
+              await attached.context.clearPermissions().catch(() => {})
+              await attached.context.setHTTPCredentials(null).catch(() => {})
+            }
+          }
+        }
+        if (session?.persistent) {
+          await releasePersistentEndpoint(sessionId)
+        }
+        
         await deleteSession(sessionId)
         
         return {
@@ -843,6 +4929,19 @@ async function executeTool(name: string, args: Record<string, unknown> | undefin
 }
 
 // Authentication helper
+function getRequestToken(req: VercelRequest): string | null {
+  const authHeader = req.headers['authorization']
+  const authHeaderStr = Array.isArray(authHeader) ? authHeader[0] : authHeader
+  const bearerToken =
+    authHeaderStr && typeof authHeaderStr === 'string' && authHeaderStr.toLowerCase().startsWith('bearer ')
+      ? authHeaderStr.slice('bearer '.length).trim()
+      : null
+
+  const directTokenHeader = req.headers['x-auth-token']
+  const directToken = Array.isArray(directTokenHeader) ? directTokenHeader[0] : directTokenHeader
+  return bearerToken || (typeof directToken === 'string' ? directToken : null)
+}
+
 function authenticate(req: VercelRequest, res: VercelResponse): boolean {
   if (requireAuth && authTokens.length === 0) {
     res.status(500).json({
@@ -855,17 +4954,7 @@ function authenticate(req: VercelRequest, res: VercelResponse): boolean {
 
   if (authTokens.length === 0) return true
 
-  const authHeader = req.headers['authorization']
-  const authHeaderStr = Array.isArray(authHeader) ? authHeader[0] : authHeader
-  const bearerToken =
-    authHeaderStr && typeof authHeaderStr === 'string' && authHeaderStr.toLowerCase().startsWith('bearer ')
-      ? authHeaderStr.slice('bearer '.length).trim()
-      : null
-
-  const directTokenHeader = req.headers['x-auth-token']
-  const directToken = Array.isArray(directTokenHeader) ? directTokenHeader[0] : directTokenHeader
-  const token = bearerToken || (typeof directToken === 'string' ? directToken : null)
-  
+  const token = getRequestToken(req)
   if (!token || !authTokens.includes(token)) {
     res.status(401).json({
       jsonrpc: '2.0',
@@ -878,7 +4967,11 @@ function authenticate(req: VercelRequest, res: VercelResponse): boolean {
 }
 
 // JSON-RPC request handler for serverless environment
-async function handleJsonRpcRequest(body: any, sessionId: string | undefined): Promise<{ result?: any; error?: any; newSessionId?: string }> {
+async function handleJsonRpcRequest(
+  body: any,
+  sessionId: string | undefined,
+  authToken: string | null
+): Promise<{ result?: any; error?: any; newSessionId?: string }> {
   const { method, params, id } = body
 
   switch (method) {
@@ -898,13 +4991,14 @@ async function handleJsonRpcRequest(body: any, sessionId: string | undefined): P
       return {}
 
     case 'tools/list':
-      return { result: { tools } }
+      // Only advertise browser_evaluate to callers that may use it
+      return { result: { tools: canEvaluate(authToken) ? tools : tools.filter(tool => tool.name !== 'browser_evaluate') } }
 
     case 'tools/call':
       if (!params?.name) {
         return { error: { code: -32602, message: 'Invalid params: missing tool name' } }
       }
-      const toolResult = await executeTool(params.name, params.arguments || {})
+      const toolResult = await executeTool(params.name, params.arguments || {}, authToken)
       return { result: toolResult }
 
     case 'ping':
@@ -934,7 +5028,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       const requestId = body?.id
 
       // Handle JSON-RPC request directly (serverless-friendly approach)
-      const response = await handleJsonRpcRequest(body, sessionId)
+      const response = await handleJsonRpcRequest(body, sessionId, getRequestToken(req))
 
       // If this was an initialize request, set the session ID header
       if (response.newSessionId) {
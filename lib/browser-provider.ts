@@ -0,0 +1,41 @@
+// Browser provider selection, shared by the MCP handler and the health check
+
+export const BROWSER_PROVIDER_NAMES = ['local', 'cdp', 'browserless', 'playwright']
+
+export const NO_BROWSER_PROVIDER_MESSAGE =
+  'No browser provider configured. Set BROWSERLESS_TOKEN (get a free API key at https://browserless.io), BROWSERLESS_URL, BROWSER_CDP_URL, or BROWSER_PROVIDER=local'
+
+// BROWSER_PROVIDER, or the first provider whose variables are set
+export function resolveBrowserProviderName(env: NodeJS.ProcessEnv = process.env): string | null {
+  return env.BROWSER_PROVIDER
+    || (env.BROWSERLESS_TOKEN && 'browserless')
+    || (env.BROWSERLESS_URL && 'playwright')
+    || (env.BROWSER_CDP_URL && 'cdp')
+    || (env.CHROMIUM_EXECUTABLE_PATH && 'local')
+    || null
+}
+
+// Whether the variables the provider needs are set; local falls back to Playwright's own Chromium lookup
+export function isBrowserProviderConfigured(providerName: string | null, env: NodeJS.ProcessEnv = process.env): boolean {
+  switch (providerName) {
+    case 'browserless':
+      return !!env.BROWSERLESS_TOKEN
+    case 'playwright':
+      return !!env.BROWSERLESS_URL
+    case 'cdp':
+      return !!env.BROWSER_CDP_URL
+    case 'local':
+      return true
+    default:
+      return false
+  }
+}
+
+// Browserless and CDP browsers can outlive a connection; PERSISTENT_BROWSER_URL works with any provider
+export function supportsPersistentSessions(providerName: string | null, env: NodeJS.ProcessEnv = process.env): boolean {
+  return !!env.PERSISTENT_BROWSER_URL || providerName === 'browserless' || providerName === 'cdp'
+}
+
+export function resolveBrowserlessHost(env: NodeJS.ProcessEnv = process.env): string {
+  return env.BROWSERLESS_HOST || `production-${env.BROWSERLESS_REGION || 'sfo'}.browserless.io`
+}
@@ -0,0 +1,59 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest'
+import { extractContent, type ExtractedTable } from './extract-content.js'
+
+function setPage(html: string): void {
+  document.body.innerHTML = html
+}
+
+describe('extractContent', () => {
+  beforeEach(() => {
+    setPage(`
+      <nav><a href="https://example.com/home">Home</a></nav>
+      <main>
+        <h1>Report</h1>
+        <p>See <a href="https://example.com/details">details</a>.</p>
+        <table><tr><th>Name</th><th>Score</th></tr><tr><td>A</td><td>1</td></tr></table>
+      </main>
+      <aside><table><tr><th>Rank</th></tr><tr><td>1</td></tr></table></aside>
+      <footer><a href="https://example.com/contact">Contact</a></footer>
+    `)
+  })
+
+  it('lists links of the whole page, including those outside <main>', () => {
+    const links = extractContent(document.documentElement, 'links') as Array<{ text: string; url: string }>
+    expect(links.map(link => link.url)).toEqual([
+      'https://example.com/home',
+      'https://example.com/details',
+      'https://example.com/contact',
+    ])
+  })
+
+  it('extracts tables of the whole page, including those outside <main>', () => {
+    const tables = extractContent(document.documentElement, 'tables') as ExtractedTable[]
+    expect(tables.map(table => table.headers)).toEqual([['Name', 'Score'], ['Rank']])
+  })
+
+  it('limits links to the given element', () => {
+    const links = extractContent(document.querySelector('main')!, 'links') as Array<{ text: string; url: string }>
+    expect(links).toEqual([{ text: 'details', url: 'https://example.com/details' }])
+  })
+
+  it('converts only the main content to Markdown', () => {
+    const markdown = extractContent(document.documentElement, 'markdown') as string
+    expect(markdown).toContain('# Report')
+    expect(markdown).toContain('[details](https://example.com/details)')
+    expect(markdown).not.toContain('Contact')
+    expect(markdown).not.toContain('Rank')
+  })
+
+  it('converts the whole body when the page has several articles', () => {
+    setPage(`
+      <article><h2>First</h2></article>
+      <article><h2>Second</h2></article>
+      <footer>Footer</footer>
+    `)
+    const markdown = extractContent(document.documentElement, 'markdown') as string
+    expect(markdown).toBe('## First\n\n## Second')
+  })
+})
@@ -0,0 +1,135 @@
+// Page content extraction for browser_extract
+
+export type ExtractedTable = { caption?: string; headers: string[]; rows: Array<Record<string, string>> }
+
+// Runs in the page, so it must not reference anything outside itself: readable Markdown, links or tables
+// of an element. Called on the document element, Markdown covers the main content and links and tables
+// the whole body
+export function extractContent(
+  target: Element,
+  mode: string
+): string | Array<{ text: string; url: string }> | ExtractedTable[] {
+  const scope = target === document.documentElement ? null : target
+  // A lone <article> is the main content; of several, none is
+  const articles = document.querySelectorAll('article')
+  const main = document.querySelector('main, [role="main"]') ?? (articles.length === 1 ? articles[0] : null)
+  const root = scope ?? (mode === 'markdown' ? main : null) ?? document.body
+  const text = (node: Node) => (node.textContent ?? '').replace(/\s+/g, ' ').trim()
+  const isHidden = (element: Element) => {
+    if (element.getAttribute('aria-hidden') === 'true' || (element as HTMLElement).hidden) return true
+    const style = getComputedStyle(element)
+    return style.display === 'none' || style.visibility === 'hidden'
+  }
+  
+  if (mode === 'links') {
+    const links = new Map<string, { text: string; url: string }>()
+    for (const anchor of root.querySelectorAll<HTMLAnchorElement | HTMLAreaElement>('a[href], area[href]')) {
+      const url = anchor.href
+      if (!url || url.startsWith('javascript:')) continue
+      const label = text(anchor) || anchor.getAttribute('aria-label') || anchor.getAttribute('title') || ''
+      const existing = links.get(url)
+      if (!existing) links.set(url, { text: label, url })
+      else if (!existing.text) existing.text = label
+    }
+    return [...links.values()]
+  }
+  
+  if (mode === 'tables') {
+    const tables = root.matches('table') ? [root as HTMLTableElement] : [...root.querySelectorAll('table')]
+    return tables.map(table => {
+      const rows = [...table.rows]
+      const headerRow = table.tHead?.rows[0] ?? (rows[0] && [...rows[0].cells].every(cell => cell.tagName === 'TH') ? rows[0] : undefined)
+      const columnCount = Math.max(0, ...rows.map(row => row.cells.length))
+      
+      // Header names become row keys, so make them unique and non-empty
+      const headers: string[] = []
+      for (let i = 0; i < columnCount; i++) {
+        const base = (headerRow?.cells[i] && text(headerRow.cells[i])) || `column_${i + 1}`
+        let name = base
+        for (let n = 2; headers.includes(name); n++) name = `${base}_${n}`
+        headers.push(name)
+      }
+      
+      const body = rows.filter(row => row !== headerRow && row.parentElement?.tagName !== 'THEAD')
+      return {
+        ...(table.caption ? { caption: text(table.caption) } : {}),
+        headers,
+        rows: body.map(row => Object.fromEntries([...row.cells].map((cell, i) => [headers[i] ?? `column_${i + 1}`, text(cell)]))),
+      }
+    })
+  }
+  
+  // Markdown
+  const SKIP = new Set(['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'SVG', 'CANVAS', 'IFRAME', 'BUTTON', 'SELECT', 'INPUT', 'TEXTAREA'])
+  const BOILERPLATE = 'nav, header, footer, aside, [role="navigation"], [role="banner"], [role="contentinfo"], [role="complementary"]'
+  const BLOCK = new Set(['P', 'DIV', 'SECTION', 'ARTICLE', 'MAIN', 'FIGURE', 'FIGCAPTION', 'DL', 'DT', 'DD', 'DETAILS', 'SUMMARY', 'FORM', 'FIELDSET'])
+  
+  const inline = (node: Node): string => {
+    if (node.nodeType === Node.TEXT_NODE) return (node.textContent ?? '').replace(/\s+/g, ' ')
+    if (node.nodeType !== Node.ELEMENT_NODE) return ''
+    const element = node as Element
+    if (SKIP.has(element.tagName.toUpperCase()) || isHidden(element)) return ''
+    if (element !== root && element.matches(BOILERPLATE) && !scope) return ''
+    const children = () => [...element.childNodes].map(inline).join('')
+    
+    switch (element.tagName) {
+      case 'H1': case 'H2': case 'H3': case 'H4': case 'H5': case 'H6':
+        return `\n\n${'#'.repeat(Number(element.tagName[1]))} ${children().trim()}\n\n`
+      case 'BR':
+        return '\n'
+      case 'HR':
+        return '\n\n---\n\n'
+      case 'A': {
+        const label = children().trim()
+        const href = (element as HTMLAnchorElement).href
+        return label && href && !href.startsWith('javascript:') ? `[${label}](${href})` : label
+      }
+      case 'STRONG': case 'B': {
+        const content = children().trim()
+        return content ? `**${content}**` : ''
+      }
+      case 'EM': case 'I': {
+        const content = children().trim()
+        return content ? `*${content}*` : ''
+      }
+      case 'CODE':
+        return `\`${element.textContent ?? ''}\``
+      case 'PRE':
+        return `\n\n\`\`\`\n${(element.textContent ?? '').replace(/\n$/, '')}\n\`\`\`\n\n`
+      case 'IMG': {
+        const alt = element.getAttribute('alt')
+        return alt ? `![${alt}](${(element as HTMLImageElement).src})` : ''
+      }
+      case 'BLOCKQUOTE':
+        return `\n\n${children().trim().split('\n').map(line => `> ${line}`).join('\n')}\n\n`
+      case 'UL': case 'OL': {
+        const ordered = element.tagName === 'OL'
+        const items = [...element.children].filter(child => child.tagName === 'LI')
+        const lines = items.map((item, i) => {
+          const [first, ...rest] = inline(item).trim().split('\n')
+          const marker = ordered ? `${i + 1}. ` : '- '
+          return [marker + first, ...rest.map(line => (line ? `   ${line}` : line))].join('\n')
+        })
+        return `\n\n${lines.join('\n')}\n\n`
+      }
+      case 'LI':
+        return children().replace(/\n{2,}/g, '\n')
+      case 'TABLE': {
+        const rows = [...(element as HTMLTableElement).rows].map(row => [...row.cells].map(cell => text(cell).replace(/\|/g, '\\|')))
+        if (rows.length === 0) return ''
+        const width = Math.max(...rows.map(row => row.length))
+        const line = (cells: string[]) => `| ${[...cells, ...Array(width - cells.length).fill('')].join(' | ')} |`
+        return `\n\n${[line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n')}\n\n`
+      }
+      default:
+        return BLOCK.has(element.tagName) ? `\n\n${children()}\n\n` : children()
+    }
+  }
+  
+  return inline(root)
+    .split('\n')
+    .map(line => line.replace(/[ \t]+$/, '').replace(/^ (?=\S)/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
@@ -0,0 +1,13 @@
+// Session store selection, shared by the MCP handler and the health check
+
+export const SESSION_STORE_NAMES = ['kv', 'memory', 'file']
+
+export const NO_SESSION_STORE_MESSAGE =
+  'No session store configured. Vercel runs each instance with its own memory, so sessions would be lost between calls. Add Vercel KV (KV_REST_API_URL and KV_REST_API_TOKEN) or set SESSION_STORE'
+
+// SESSION_STORE, else KV when configured, else memory; null on Vercel, where memory does not work
+export function resolveSessionStoreName(env: NodeJS.ProcessEnv = process.env): string | null {
+  if (env.SESSION_STORE) return env.SESSION_STORE
+  if (env.KV_REST_API_URL && env.KV_REST_API_TOKEN) return 'kv'
+  return env.VERCEL_ENV ? null : 'memory'
+}